@@ -0,0 +1,54 @@
+#!/usr/bin/env bun
+// Minimal OpenAI-compatible server for testing `cr proxy` offline.
+//
+//   bun run dev-docs/mock-openai.ts 9999 &
+//   bun run src/cli.ts proxy --upstream http://127.0.0.1:9999/v1 --port 8787 &
+//   curl -N localhost:8787/v1/messages -d '{"model":"m","stream":true,"max_tokens":64,
+//     "messages":[{"role":"user","content":"weather?"}],
+//     "tools":[{"name":"get_weather","input_schema":{"type":"object"}}]}'
+//
+// Replies with a tool call when the request offers tools, plain text otherwise.
+
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] || 9999);
+
+createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}");
+  console.error(JSON.stringify(body));
+
+  const useTool = Array.isArray(body.tools) && body.tools.length > 0;
+  const toolCall = {
+    index: 0,
+    id: "call_1",
+    type: "function",
+    function: { name: body.tools?.[0]?.function?.name, arguments: '{"city":"Paris"}' },
+  };
+
+  if (!body.stream) {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({
+      id: "cmpl-1",
+      choices: [{
+        message: useTool ? { content: null, tool_calls: [toolCall] } : { content: "hello from mock" },
+        finish_reason: useTool ? "tool_calls" : "stop",
+      }],
+      usage: { prompt_tokens: 10, completion_tokens: 3 },
+    }));
+    return;
+  }
+
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  const send = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  send({ choices: [{ delta: { content: "hello " } }] });
+  send({ choices: [{ delta: { content: "from mock" } }] });
+  if (useTool) {
+    send({ choices: [{ delta: { tool_calls: [{ ...toolCall, function: { name: toolCall.function.name, arguments: "" } }] } }] });
+    send({ choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: toolCall.function.arguments } }] } }] });
+  }
+  send({ choices: [{ delta: {}, finish_reason: useTool ? "tool_calls" : "stop" }] });
+  send({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 3 } });
+  res.end("data: [DONE]\n\n");
+}).listen(port, "127.0.0.1", () => console.error(`mock openai on http://127.0.0.1:${port}/v1`));
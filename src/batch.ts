@@ -0,0 +1,357 @@
+import { readFile, writeFile, mkdir, stat, appendFile } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { CONFIG_DIR, getVariant, useConfigFile } from "./config.ts";
+import { parseTarget, resolveTarget, checkRequiredEnvVars } from "./resolve.ts";
+import { runTarget, redactArgs } from "./runner.ts";
+import { explainTarget, printExplanation } from "./explain.ts";
+import { parseRunFlags, applyRunOverrides, type RunOverrides } from "./flags.ts";
+import { formatDuration, shortPath } from "./history.ts";
+import { fileTimestamp } from "./files.ts";
+import { HEADLESS_ARGS } from "./presets.ts";
+import { expandHome } from "./secrets.ts";
+import { mapPool } from "./pool.ts";
+import { parseJson, formatPath, JsonSyntaxError } from "./json.ts";
+import { validateSchema, type JsonSchema } from "./schema.ts";
+
+// `cr batch tasks.json` runs a list of prompts headless, e.g. the same
+// dependency upgrade across many repos. Each task goes through the same
+// resolution and runner as `cr <variant>`.
+export const BATCH_DIR = join(CONFIG_DIR, "batch");
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Wait before retry n is n times this, to ride out rate limits
+const RETRY_DELAY_MS = 5_000;
+
+const USAGE = `usage: cr batch <tasks.json> [--concurrency N] [--retries N] [--continue-on-error] [--results FILE] [--cr-* options]`;
+
+export interface BatchTask {
+  name?: string;
+  target?: string;
+  prompt?: string;
+  // Relative to the tasks file
+  cwd?: string;
+  // Passed to the scaffold after its headless args
+  args?: string[];
+  // Seconds
+  timeout?: number;
+}
+
+export interface TasksFile {
+  concurrency?: number;
+  retries?: number;
+  continueOnError?: boolean;
+  // Fields every task starts from
+  defaults?: Omit<BatchTask, "name">;
+  tasks: BatchTask[];
+}
+
+const taskProperties: Record<string, JsonSchema> = {
+  target: { type: "string", minLength: 1, description: "Variant to run, e.g. claude.glm" },
+  prompt: { type: "string", minLength: 1 },
+  cwd: { type: "string", description: "Directory to run in, relative to the tasks file" },
+  args: { type: "array", items: { type: "string" }, description: "Extra args for the scaffold" },
+  timeout: { type: "number", minimum: 1, description: "Seconds before the run is stopped" },
+};
+
+const TASKS_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["tasks"],
+  additionalProperties: false,
+  properties: {
+    concurrency: { type: "integer", minimum: 1 },
+    retries: { type: "integer", minimum: 0, description: "Extra attempts for a task that fails" },
+    continueOnError: { type: "boolean", description: "Keep starting tasks after one fails" },
+    defaults: { type: "object", additionalProperties: false, properties: taskProperties },
+    tasks: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: { name: { type: "string", minLength: 1 }, ...taskProperties },
+      },
+    },
+  },
+};
+
+export type TaskStatus = "ok" | "failed" | "timeout" | "error" | "skipped";
+
+export interface TaskResult {
+  name: string;
+  target: string;
+  cwd: string;
+  status: TaskStatus;
+  // Of the last attempt; null when the scaffold never ran
+  exitCode: number | null;
+  attempts: number;
+  // All attempts together
+  durationMs: number;
+  log: string;
+  error?: string;
+}
+
+interface Job {
+  name: string;
+  target: string;
+  prompt: string;
+  cwd: string;
+  args: string[];
+  timeout?: number;
+  log: string;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  retries: number;
+  continueOnError: boolean;
+  overrides: RunOverrides;
+}
+
+function log(message: string): void {
+  console.error(`\x1b[90m[cr]\x1b[0m ${message}`);
+}
+
+// Parse and validate a tasks file, with line and column for each problem
+export function parseTasksFile(text: string, file: string): TasksFile {
+  let parsed;
+  try {
+    parsed = parseJson(text);
+  } catch (err) {
+    if (!(err instanceof JsonSyntaxError)) throw err;
+    throw new Error(`${file}:${err.position.line}:${err.position.column}: ${err.message}`);
+  }
+
+  const issues = validateSchema(parsed.value, TASKS_SCHEMA).map((issue) => {
+    const position = parsed.locate(issue.path, { key: issue.atKey });
+    const location = position ? `${file}:${position.line}:${position.column}` : file;
+    return `  ${location}: ${issue.path.length > 0 ? `${formatPath(issue.path)}: ` : ""}${issue.message}`;
+  });
+  if (issues.length > 0) throw new Error(`invalid tasks file\n${issues.join("\n")}`);
+  return parsed.value as TasksFile;
+}
+
+// Fill in defaults and check that every task can run
+async function buildJobs(tasks: TasksFile, baseDir: string, runDir: string): Promise<Job[]> {
+  const problems: string[] = [];
+
+  const jobs = await Promise.all(
+    tasks.tasks.map(async (task, index): Promise<Job> => {
+      const merged = { ...tasks.defaults, ...task };
+      const where = `tasks[${index}]`;
+      const target = merged.target ?? "";
+      const cwd = resolve(baseDir, expandHome(merged.cwd ?? "."));
+
+      if (!merged.prompt) problems.push(`${where}: needs a prompt (or defaults.prompt)`);
+      const parsed = parseTarget(target);
+      if (!target) {
+        problems.push(`${where}: needs a target (or defaults.target)`);
+      } else if (!parsed || (parsed.variant && !(await getVariant(parsed.scaffold, parsed.variant)))) {
+        problems.push(`${where}: unknown variant ${target}`);
+      }
+      const isDir = await stat(cwd).then((s) => s.isDirectory(), () => false);
+      if (!isDir) problems.push(`${where}: ${cwd} is not a directory`);
+
+      return {
+        name: task.name ?? (merged.cwd ? basename(cwd) : `task-${index + 1}`),
+        target,
+        prompt: merged.prompt ?? "",
+        cwd,
+        args: merged.args ?? [],
+        timeout: merged.timeout,
+        log: "",
+      };
+    })
+  );
+
+  if (problems.length > 0) throw new Error(`can't run ${problems.length === 1 ? "a task" : "some tasks"}\n  ${problems.join("\n  ")}`);
+
+  // Numbered, so two tasks in repos named "api" get 01-api.log and 02-api.log
+  for (const [index, job] of jobs.entries()) {
+    job.log = join(runDir, `${String(index + 1).padStart(2, "0")}-${job.name.replace(/[^\w.-]+/g, "_")}.log`);
+  }
+  return jobs;
+}
+
+// Run one task, retrying failed attempts. Config problems aren't retried.
+async function runJob(job: Job, options: BatchOptions, label: string): Promise<TaskResult> {
+  const result: TaskResult = {
+    name: job.name,
+    target: job.target,
+    cwd: job.cwd,
+    status: "error",
+    exitCode: null,
+    attempts: 0,
+    durationMs: 0,
+    log: job.log,
+  };
+
+  const parsed = parseTarget(job.target)!;
+  const args = [...HEADLESS_ARGS[parsed.scaffold](job.prompt), ...job.args];
+  const attempts = options.retries + 1;
+
+  try {
+    const target = await resolveTarget(parsed.scaffold, parsed.variant, { model: options.overrides.model });
+    if (!target) throw new Error(`unknown variant ${job.target}`);
+    applyRunOverrides(target, options.overrides);
+
+    const missing = await checkRequiredEnvVars(target);
+    if (missing.length > 0) throw new Error(`missing ${missing.join(", ")}; run cr auth ${job.target}`);
+
+    const command = [target.command, ...redactArgs([...target.defaultArgs, ...args])].join(" ");
+    await writeFile(job.log, `# cr batch ${job.name}: ${job.target} in ${job.cwd}\n# ${command}\n`);
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (attempt > 1) await new Promise((done) => setTimeout(done, RETRY_DELAY_MS * (attempt - 1)));
+      await appendFile(job.log, `\n# attempt ${attempt} of ${attempts}, ${new Date().toISOString()}\n`);
+      log(`${label} ${job.name} (${job.target}) started${attempt > 1 ? `, attempt ${attempt} of ${attempts}` : ""}`);
+
+      const started = Date.now();
+      const run = await runTarget(target, args, {
+        cwd: job.cwd,
+        logFile: job.log,
+        quiet: true,
+        timeoutMs: job.timeout === undefined ? undefined : job.timeout * 1000,
+      });
+      result.durationMs += Date.now() - started;
+      result.attempts = attempt;
+      result.exitCode = run.launched ? run.code : null;
+      result.status = run.timedOut ? "timeout" : !run.launched ? "error" : run.code === 0 ? "ok" : "failed";
+      if (!run.launched) result.error = `failed to execute ${target.command}`;
+
+      const outcome =
+        result.status === "ok"
+          ? "\x1b[32mok\x1b[0m"
+          : result.status === "timeout"
+            ? "\x1b[31mtimed out\x1b[0m"
+            : `\x1b[31mfailed\x1b[0m (${result.error ?? `exit ${result.exitCode}`})`;
+      log(`${label} ${job.name} ${outcome} in ${formatDuration(Date.now() - started)}`);
+      if (result.status === "ok" || !run.launched) break;
+    }
+  } catch (err) {
+    result.error = (err as Error).message;
+    log(`${label} ${job.name} \x1b[31mfailed:\x1b[0m ${result.error}`);
+  }
+  return result;
+}
+
+export async function runBatch(args: string[]): Promise<void> {
+  const { overrides, args: rest } = parseRunFlags(args);
+  if (overrides.config) await useConfigFile(overrides.config);
+
+  let file: string | undefined;
+  let resultsFile: string | undefined;
+  const flags: { concurrency?: number; retries?: number; continueOnError?: boolean } = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    if (arg === "--concurrency" || arg === "-j") flags.concurrency = Number(rest[++i]);
+    else if (arg === "--retries") flags.retries = Number(rest[++i]);
+    else if (arg === "--continue-on-error" || arg === "-k") flags.continueOnError = true;
+    else if (arg === "--stop-on-error") flags.continueOnError = false;
+    else if (arg === "--results") resultsFile = rest[++i];
+    else if (arg.startsWith("-")) {
+      console.error(`unknown option ${arg}`);
+      console.error(USAGE);
+      process.exit(1);
+    } else file = arg;
+  }
+  if (!file) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const tasks = parseTasksFile(await readFile(file, "utf-8"), file);
+  const options: BatchOptions = {
+    concurrency: flags.concurrency ?? tasks.concurrency ?? DEFAULT_CONCURRENCY,
+    retries: flags.retries ?? tasks.retries ?? 0,
+    continueOnError: flags.continueOnError ?? tasks.continueOnError ?? false,
+    overrides,
+  };
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    console.error(`\x1b[31m--concurrency must be a positive whole number\x1b[0m`);
+    process.exit(1);
+  }
+  if (!Number.isInteger(options.retries) || options.retries < 0) {
+    console.error(`\x1b[31m--retries must be a whole number\x1b[0m`);
+    process.exit(1);
+  }
+
+  const started = new Date();
+  const runDir = join(BATCH_DIR, `${basename(file, ".json")}-${fileTimestamp(started)}`);
+  const jobs = await buildJobs(tasks, dirname(resolve(file)), runDir);
+  if (jobs.length === 0) {
+    console.log("no tasks to run");
+    return;
+  }
+
+  if (overrides.dryRun) {
+    for (const job of jobs) {
+      const parsed = parseTarget(job.target)!;
+      const jobArgs = [...HEADLESS_ARGS[parsed.scaffold](job.prompt), ...job.args];
+      const explanation = await explainTarget(parsed.scaffold, parsed.variant, jobArgs, overrides);
+      const timeout = job.timeout === undefined ? "" : `, timeout ${job.timeout}s`;
+      console.log(`\x1b[90mtask ${job.name} in ${shortPath(job.cwd)}${timeout}\x1b[0m`);
+      if (explanation) printExplanation(explanation);
+      console.log();
+    }
+    return;
+  }
+
+  await mkdir(runDir, { recursive: true });
+  const resultsPath = resolve(resultsFile ?? join(runDir, "results.json"));
+  const results: Array<TaskResult | undefined> = new Array(jobs.length);
+  const collect = () =>
+    jobs.map((job, i): TaskResult => results[i] ?? {
+      name: job.name,
+      target: job.target,
+      cwd: job.cwd,
+      status: "skipped",
+      exitCode: null,
+      attempts: 0,
+      durationMs: 0,
+      log: job.log,
+    });
+
+  // Rewritten as each task finishes, so an interrupted batch leaves a record.
+  // Tasks finish concurrently, so writes are chained.
+  let writing = Promise.resolve();
+  const writeResults = () => {
+    const report = {
+      tasksFile: resolve(file!),
+      started: started.toISOString(),
+      ended: new Date().toISOString(),
+      logDir: runDir,
+      results: collect(),
+    };
+    writing = writing.then(() => writeFile(resultsPath, JSON.stringify(report, null, 2) + "\n"));
+    return writing;
+  };
+
+  log(`running ${jobs.length} task${jobs.length === 1 ? "" : "s"}, ${Math.min(options.concurrency, jobs.length)} at a time`);
+  let stopped = false;
+  await mapPool(jobs, options.concurrency, async (job, index) => {
+    if (stopped) return;
+    const result = await runJob(job, options, `[${index + 1}/${jobs.length}]`);
+    results[index] = result;
+    if (result.status !== "ok" && !options.continueOnError && !stopped) {
+      stopped = true;
+      log(`stopping after ${job.name} failed; running tasks finish, the rest are skipped (--continue-on-error runs them all)`);
+    }
+    await writeResults();
+  });
+  await writeResults();
+  const final = collect();
+
+  const counts = new Map<TaskStatus, number>();
+  for (const result of final) counts.set(result.status, (counts.get(result.status) ?? 0) + 1);
+  const colors: Record<TaskStatus, string> = { ok: "32", failed: "31", timeout: "31", error: "31", skipped: "90" };
+  console.log();
+  console.log([...counts].map(([status, count]) => `\x1b[${colors[status]}m${count} ${status}\x1b[0m`).join(", "));
+  for (const result of final) {
+    if (result.status === "ok" || result.status === "skipped") continue;
+    const reason = result.error ?? (result.status === "timeout" ? "timed out" : `exit ${result.exitCode}`);
+    console.log(`  \x1b[31m${result.name}\x1b[0m ${reason}  \x1b[90m${shortPath(result.log)}\x1b[0m`);
+  }
+  console.log(`\x1b[90mresults: ${shortPath(resultsPath)}\x1b[0m`);
+
+  if (final.some((result) => result.status !== "ok")) process.exit(1);
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CONFIG_FILE, PROJECT_CONFIG_NAME } from "./config.ts";
+import { buildBundle } from "./bundle.ts";
+import type { Config } from "./types.ts";
+
+async function writeUserConfig(config: Config): Promise<void> {
+  await writeFile(CONFIG_FILE, JSON.stringify(config), { mode: 0o600 });
+}
+
+afterEach(async () => {
+  await rm(CONFIG_FILE, { force: true });
+});
+
+describe("buildBundle", () => {
+  test("strips literal secrets but keeps token limits, empty values and references", async () => {
+    await writeUserConfig({
+      variants: {
+        "claude.team": {
+          extends: "claude.glm",
+          env: {
+            ANTHROPIC_AUTH_TOKEN: "sk-live-123",
+            ANTHROPIC_API_KEY: "",
+            OTHER_API_KEY: "${auth:OTHER_API_KEY}",
+            PASSED_KEY: "env:MY_KEY",
+            CLAUDE_CODE_MAX_OUTPUT_TOKENS: "32000",
+            MAX_THINKING_TOKENS: "8000",
+          },
+        },
+      },
+    });
+
+    const { bundle, stripped } = await buildBundle({ patterns: [], resolved: false });
+    const variant = bundle.variants["claude.team"]!;
+    expect(stripped).toEqual(["claude.team: ANTHROPIC_AUTH_TOKEN"]);
+    expect(variant.env).toEqual({
+      ANTHROPIC_API_KEY: "",
+      OTHER_API_KEY: "${auth:OTHER_API_KEY}",
+      PASSED_KEY: "env:MY_KEY",
+      CLAUDE_CODE_MAX_OUTPUT_TOKENS: "32000",
+      MAX_THINKING_TOKENS: "8000",
+    });
+    expect(variant.requiredEnvVars).toContain("ANTHROPIC_AUTH_TOKEN");
+  });
+
+  test("--resolved keeps the empty ANTHROPIC_API_KEY of claude.openrouter", async () => {
+    await writeUserConfig({ variants: { "claude.or": { extends: "claude.openrouter" } } });
+
+    const { bundle } = await buildBundle({ patterns: [], resolved: true });
+    expect(bundle.variants["claude.or"]!.env?.ANTHROPIC_API_KEY).toBe("");
+  });
+
+  test("exports only the user config unless resolved", async () => {
+    await writeUserConfig({ variants: { "claude.mine": { extends: "claude.glm" } } });
+    const project = await mkdtemp(join(tmpdir(), "coderouter-project-"));
+    await writeFile(join(project, PROJECT_CONFIG_NAME), JSON.stringify({ variants: { "claude.theirs": { extends: "claude.glm" } } }));
+    const cwd = process.cwd();
+    process.chdir(project);
+    try {
+      expect(Object.keys((await buildBundle({ patterns: [], resolved: false })).bundle.variants)).toEqual(["claude.mine"]);
+      expect(Object.keys((await buildBundle({ patterns: [], resolved: true })).bundle.variants)).toEqual([
+        "claude.mine",
+        "claude.theirs",
+      ]);
+    } finally {
+      process.chdir(cwd);
+      await rm(project, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,292 @@
+import { readFile } from "node:fs/promises";
+import { loadConfig, loadUserConfig, getVariantChain, mergeVariantLayers, getAuthRefs, updateConfig, matchesGlob } from "./config.ts";
+import { parseTarget } from "./resolve.ts";
+import { isSensitive } from "./runner.ts";
+import { isSecretRef } from "./secrets.ts";
+import { validateConfig } from "./schema.ts";
+import { formatPath } from "./json.ts";
+import type { UserVariant } from "./types.ts";
+
+// A set of variants to hand to other people: `cr export > team.json`,
+// then `cr import team.json`. Bundles never carry credentials; they list
+// the env vars each variant needs so the importer can run `cr auth`.
+export const BUNDLE_VERSION = 1;
+
+export interface Bundle {
+  coderouterBundle: number;
+  variants: Record<string, UserVariant>;
+}
+
+export const CONFLICT_MODES = ["skip", "overwrite", "rename"] as const;
+export type ConflictMode = (typeof CONFLICT_MODES)[number];
+
+function isConflictMode(value: string): value is ConflictMode {
+  return (CONFLICT_MODES as readonly string[]).includes(value);
+}
+
+async function resolvedVariant(fullName: string): Promise<UserVariant | undefined> {
+  const parsed = parseTarget(fullName);
+  if (!parsed?.variant) return undefined;
+  const layers = await getVariantChain(parsed.scaffold, parsed.variant);
+  if (!layers) return undefined;
+  const { name: _, ...merged } = mergeVariantLayers(parsed.variant, layers);
+  return merged;
+}
+
+// Count and limit settings such as MAX_THINKING_TOKENS look sensitive by name
+const TOKEN_COUNT_PATTERN = /_TOKENS$/i;
+
+// Only a literal value can be a secret. Empty values (ANTHROPIC_API_KEY: ""
+// for openrouter) and references must reach the importer as written.
+function isSecretValue(key: string, value: string): boolean {
+  if (!isSensitive(key) || TOKEN_COUNT_PATTERN.test(key)) return false;
+  return value !== "" && !isSecretRef(value) && !value.includes("${");
+}
+
+// Move secrets someone put straight into `env` over to requiredEnvVars
+function stripSecrets(fullName: string, variant: UserVariant, stripped: string[]): UserVariant {
+  const env = { ...variant.env };
+  const required = new Set(variant.requiredEnvVars);
+
+  for (const [key, value] of Object.entries(env)) {
+    if (!isSecretValue(key, value)) continue;
+    delete env[key];
+    required.add(key);
+    stripped.push(`${fullName}: ${key}`);
+  }
+
+  return JSON.parse(
+    JSON.stringify({
+      ...variant,
+      env: Object.keys(env).length > 0 ? env : undefined,
+      requiredEnvVars: required.size > 0 ? [...required] : undefined,
+    })
+  );
+}
+
+export interface ExportOptions {
+  patterns: string[];
+  resolved: boolean;
+}
+
+// Build a bundle of user variants matching any of the patterns (all of them
+// by default). With extends kept, user variants they build on come along too.
+// Only --resolved takes variants from presets and .coderouter.json as well.
+export async function buildBundle(options: ExportOptions): Promise<{ bundle: Bundle; stripped: string[] }> {
+  const config = options.resolved ? await loadConfig() : await loadUserConfig();
+  const userVariants = config.variants || {};
+  const names = Object.keys(userVariants).filter(
+    (name) => options.patterns.length === 0 || options.patterns.some((pattern) => matchesGlob(name, pattern))
+  );
+
+  const selected = new Set<string>();
+  const visit = (name: string) => {
+    if (selected.has(name) || !userVariants[name]) return;
+    selected.add(name);
+    const base = userVariants[name]!.extends;
+    if (!options.resolved && base && base !== name) visit(base);
+  };
+  names.forEach(visit);
+
+  const variants: Record<string, UserVariant> = {};
+  const stripped: string[] = [];
+  for (const name of [...selected].sort()) {
+    let variant: UserVariant | undefined = userVariants[name]!;
+    const resolved = await resolvedVariant(name);
+
+    if (options.resolved) {
+      variant = resolved;
+    } else if (resolved?.requiredEnvVars && !variant.requiredEnvVars) {
+      // Spell out inherited requirements so importers see them in the file
+      variant = { ...variant, requiredEnvVars: resolved.requiredEnvVars };
+    }
+    if (variant) variants[name] = stripSecrets(name, variant, stripped);
+  }
+
+  return { bundle: { coderouterBundle: BUNDLE_VERSION, variants }, stripped };
+}
+
+export function parseBundle(text: string, file: string): Bundle {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`${file}: not valid JSON: ${(err as Error).message}`);
+  }
+
+  const bundle = value as Partial<Bundle> | null;
+  if (!bundle || typeof bundle.coderouterBundle !== "number" || typeof bundle.variants !== "object") {
+    throw new Error(`${file} is not a coderouter bundle (create one with cr export)`);
+  }
+  if (bundle.coderouterBundle > BUNDLE_VERSION) {
+    throw new Error(`${file} was written by a newer coderouter (bundle version ${bundle.coderouterBundle}); upgrade coderouter`);
+  }
+
+  const issues = validateConfig({ variants: bundle.variants });
+  if (issues.length > 0) {
+    const lines = issues.map((issue) => `  ${formatPath(issue.path)}: ${issue.message}`);
+    throw new Error(`${file} has invalid variants:\n${lines.join("\n")}`);
+  }
+  return bundle as Bundle;
+}
+
+function sameVariant(a: UserVariant, b: UserVariant): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function freeName(name: string, taken: (name: string) => boolean): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${name}-${n}`;
+    if (!taken(candidate)) return candidate;
+  }
+}
+
+export type ImportAction = "added" | "unchanged" | "skipped" | "overwritten" | "renamed";
+
+export interface ImportResult {
+  name: string; // name in the bundle
+  savedAs?: string; // name in the config, if written
+  action: ImportAction;
+}
+
+// Merge a bundle into the user config in one locked update
+export async function importBundle(bundle: Bundle, onConflict: ConflictMode): Promise<ImportResult[]> {
+  return updateConfig((config) => {
+    const existing = (config.variants ||= {});
+    const incoming = Object.keys(bundle.variants);
+    const renames = new Map<string, string>();
+    const results: ImportResult[] = [];
+
+    for (const name of incoming) {
+      const variant = bundle.variants[name]!;
+      const current = existing[name];
+      if (!current) {
+        results.push({ name, savedAs: name, action: "added" });
+      } else if (sameVariant(current, variant)) {
+        results.push({ name, action: "unchanged" });
+      } else if (onConflict === "skip") {
+        results.push({ name, action: "skipped" });
+      } else if (onConflict === "overwrite") {
+        results.push({ name, savedAs: name, action: "overwritten" });
+      } else {
+        const renamed = freeName(name, (n) => !!existing[n] || incoming.includes(n) || [...renames.values()].includes(n));
+        renames.set(name, renamed);
+        results.push({ name, savedAs: renamed, action: "renamed" });
+      }
+    }
+
+    for (const result of results) {
+      if (!result.savedAs) continue;
+      const variant = { ...bundle.variants[result.name]! };
+      // Keep renamed variants pointing at the bundle's versions of their bases
+      if (variant.extends && variant.extends !== result.name && renames.has(variant.extends)) {
+        variant.extends = renames.get(variant.extends);
+      }
+      existing[result.savedAs] = variant;
+    }
+    return results;
+  });
+}
+
+// Variants whose required env vars aren't in the shell or saved with cr auth
+async function pendingAuth(names: string[]): Promise<Array<{ name: string; missing: string[] }>> {
+  const pending: Array<{ name: string; missing: string[] }> = [];
+  for (const name of names) {
+    const resolved = await resolvedVariant(name);
+    const auth = await getAuthRefs(name);
+    const missing = (resolved?.requiredEnvVars || []).filter((key) => !process.env[key] && !auth[key]);
+    if (missing.length > 0) pending.push({ name, missing });
+  }
+  return pending;
+}
+
+export async function runExport(args: string[]): Promise<void> {
+  const resolved = args.includes("--resolved");
+  const patterns = args.filter((a) => a !== "--resolved");
+  for (const pattern of patterns) {
+    if (pattern.startsWith("-")) {
+      console.error(`unknown option ${pattern}`);
+      console.error("usage: cr export [patterns...] [--resolved] > bundle.json");
+      process.exit(1);
+    }
+  }
+
+  const { bundle, stripped } = await buildBundle({ patterns, resolved });
+  const count = Object.keys(bundle.variants).length;
+  if (count === 0) {
+    console.error(patterns.length > 0 ? `no user variants match ${patterns.join(" ")}` : "no user variants to export");
+    process.exit(1);
+  }
+
+  console.log(JSON.stringify(bundle, null, 2));
+
+  // Stdout is usually redirected to a file; keep notes on stderr
+  for (const entry of stripped) {
+    console.error(`\x1b[33mwarning:\x1b[0m left out ${entry} (looks like a secret; listed in requiredEnvVars instead)`);
+  }
+  console.error(`\x1b[90mexported ${count} variant${count === 1 ? "" : "s"}\x1b[0m`);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+const IMPORT_USAGE = `usage: cr import <file|-> [--on-conflict ${CONFLICT_MODES.join("|")}]`;
+
+export async function runImport(args: string[]): Promise<void> {
+  let file: string | undefined;
+  let onConflict = "skip";
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--on-conflict") {
+      onConflict = args[++i] ?? "";
+    } else if (arg.startsWith("--on-conflict=")) {
+      onConflict = arg.slice("--on-conflict=".length);
+    } else if (arg.startsWith("-") && arg !== "-") {
+      console.error(`unknown option ${arg}`);
+      console.error(IMPORT_USAGE);
+      process.exit(1);
+    } else {
+      file = arg;
+    }
+  }
+
+  if (!isConflictMode(onConflict)) {
+    console.error(`\x1b[31munknown --on-conflict:\x1b[0m ${onConflict} (use ${CONFLICT_MODES.join(", ")})`);
+    process.exit(1);
+  }
+  if (!file) {
+    console.error(IMPORT_USAGE);
+    process.exit(1);
+  }
+
+  const text = file === "-" ? await readStdin() : await readFile(file, "utf-8");
+  const bundle = parseBundle(text, file === "-" ? "stdin" : file);
+  const results = await importBundle(bundle, onConflict);
+
+  const labels: Record<ImportAction, string> = {
+    added: "\x1b[32madded\x1b[0m",
+    overwritten: "\x1b[33moverwritten\x1b[0m",
+    renamed: "\x1b[33mrenamed\x1b[0m",
+    unchanged: "\x1b[90munchanged\x1b[0m",
+    skipped: "\x1b[90mskipped\x1b[0m",
+  };
+  for (const result of results) {
+    const renamed = result.action === "renamed" ? ` -> ${result.savedAs}` : "";
+    const reason = result.action === "skipped" ? " (already exists; use --on-conflict overwrite or rename)" : "";
+    console.log(`  ${labels[result.action]} ${result.name}${renamed}${reason}`);
+  }
+
+  const written = results.flatMap((result) => (result.savedAs ? [result.savedAs] : []));
+  const pending = await pendingAuth(written);
+  if (pending.length > 0) {
+    console.log();
+    console.log("\x1b[1mStill needed:\x1b[0m");
+    for (const { name, missing } of pending) {
+      console.log(`  cr auth ${name}  \x1b[90m# ${missing.join(", ")}\x1b[0m`);
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import { access, readFile, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  CONFIG_FILE,
+  findProjectConfig,
+  findPresetFiles,
+  checkConfigFile,
+  backupConfigFile,
+  loadConfig,
+  loadUserConfig,
+  updateConfig,
+  getVariantChain,
+  type ConfigIssue,
+} from "./config.ts";
+import { parseTarget } from "./resolve.ts";
+import { CONFIG_SCHEMA, validateConfig } from "./schema.ts";
+import { parseJson, parsePath, formatPath, type JsonPath } from "./json.ts";
+import { migrate, CONFIG_VERSION } from "./migrations.ts";
+import { writeFileAtomic, withFileLock } from "./files.ts";
+
+const USAGE = `usage:
+  cr config get <path>        Print a value from your config, e.g. variants["claude.glm"].env
+  cr config set <path> <value> [--string]
+                              Set a value (parsed as JSON unless --string)
+  cr config unset <path>      Remove a value
+  cr config validate [file]   Check config files (default: presets, user and project config)
+  cr config schema            Print the JSON Schema for config files
+  cr config migrate [--dry-run] [file]
+                              Upgrade a config file to the current format (backs it up first)`;
+
+function printIssues(issues: ConfigIssue[]): void {
+  for (const issue of issues) {
+    const location = issue.line ? `${issue.file}:${issue.line}:${issue.column}` : issue.file;
+    const path = issue.path ? `\x1b[36m${issue.path}\x1b[0m: ` : "";
+    console.error(`  \x1b[31m✗\x1b[0m ${location}`);
+    console.error(`    ${path}${issue.message}`);
+  }
+}
+
+// Errors the schema can't see: extends chains that don't resolve
+async function checkVariantChains(): Promise<string[]> {
+  const config = await loadConfig();
+  const problems: string[] = [];
+
+  for (const name of Object.keys(config.variants || {})) {
+    const parsed = parseTarget(name);
+    if (!parsed?.variant) continue;
+    try {
+      await getVariantChain(parsed.scaffold, parsed.variant);
+    } catch (err) {
+      problems.push(`variants["${name}"]: ${(err as Error).message}`);
+    }
+  }
+  return problems;
+}
+
+async function runValidate(file?: string): Promise<void> {
+  const files: string[] = [];
+  const presets = await findPresetFiles();
+  if (file) {
+    files.push(file);
+  } else {
+    files.push(...presets);
+    try {
+      await access(CONFIG_FILE);
+      files.push(CONFIG_FILE);
+    } catch {
+      // no user config yet
+    }
+    const projectFile = await findProjectConfig();
+    if (projectFile) files.push(projectFile);
+  }
+
+  if (files.length === 0) {
+    console.log(`no config files found (user config would be ${CONFIG_FILE})`);
+    return;
+  }
+
+  let failed = false;
+  for (const path of files) {
+    const issues = await checkConfigFile(path, { preset: presets.includes(path) });
+    if (issues.length === 0) {
+      console.log(`  \x1b[32m✓\x1b[0m ${path}`);
+    } else {
+      printIssues(issues);
+      failed = true;
+    }
+  }
+
+  // Chains span files, so only check them once every layer is valid
+  if (!failed && !file) {
+    for (const problem of await checkVariantChains()) {
+      console.error(`  \x1b[31m✗\x1b[0m ${problem}`);
+      failed = true;
+    }
+  }
+
+  if (failed) process.exit(1);
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+// Variant and auth names contain dots, so `variants.claude.glm.env` is
+// matched against existing keys before falling back to one key per segment
+function resolvePath(root: unknown, path: JsonPath): JsonPath {
+  const resolved: JsonPath = [];
+  let node = root;
+
+  for (let i = 0; i < path.length; i++) {
+    let segment = path[i]!;
+    if (typeof segment === "string" && isContainer(node) && !Array.isArray(node) && !(segment in node)) {
+      for (let j = path.length; j > i + 1; j--) {
+        const parts = path.slice(i, j);
+        if (!parts.every((p) => typeof p === "string")) continue;
+        const joined = parts.join(".");
+        if (joined in node) {
+          segment = joined;
+          i = j - 1;
+          break;
+        }
+      }
+    }
+    resolved.push(segment);
+    node = isContainer(node) ? (node as Record<string | number, unknown>)[segment] : undefined;
+  }
+  return resolved;
+}
+
+function getAt(root: unknown, path: JsonPath): unknown {
+  let node = root;
+  for (const segment of path) {
+    if (!isContainer(node)) return undefined;
+    node = (node as Record<string | number, unknown>)[segment];
+  }
+  return node;
+}
+
+async function runGet(input: string | undefined): Promise<void> {
+  if (!input) throw new Error("usage: cr config get <path>");
+  const config = await loadUserConfig();
+  const path = resolvePath(config, parsePath(input));
+  const value = getAt(config, path);
+
+  if (value === undefined) {
+    console.error(`${formatPath(path)} is not set in ${CONFIG_FILE}`);
+    process.exit(1);
+  }
+  console.log(typeof value === "string" ? value : JSON.stringify(value, null, 2));
+}
+
+// Refuse changes that would leave an invalid config behind
+function assertValid(config: unknown): void {
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new Error(issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`).join("\n"));
+  }
+}
+
+async function runSet(args: string[]): Promise<void> {
+  const asString = args.includes("--string");
+  const [input, raw] = args.filter((a) => a !== "--string");
+  if (!input || raw === undefined) throw new Error("usage: cr config set <path> <value> [--string]");
+
+  let value: unknown = raw;
+  if (!asString) {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // plain strings don't need quoting
+    }
+  }
+
+  await updateConfig((config) => {
+    const path = resolvePath(config, parsePath(input));
+    let node: unknown = config;
+    for (let i = 0; i < path.length - 1; i++) {
+      const container = node as Record<string | number, unknown>;
+      const segment = path[i]!;
+      if (container[segment] === undefined) container[segment] = typeof path[i + 1] === "number" ? [] : {};
+      node = container[segment];
+      if (!isContainer(node)) throw new Error(`${formatPath(path.slice(0, i + 1))} is not an object`);
+    }
+    (node as Record<string | number, unknown>)[path[path.length - 1]!] = value;
+    try {
+      assertValid(config);
+    } catch (err) {
+      const hint = typeof value !== "string" ? "\n(use --string to store the value as text)" : "";
+      throw new Error(`${(err as Error).message}${hint}`);
+    }
+    console.log(`set ${formatPath(path)}`);
+  }, { validate: false });
+}
+
+async function runUnset(input: string | undefined): Promise<void> {
+  if (!input) throw new Error("usage: cr config unset <path>");
+
+  await updateConfig((config) => {
+    const path = resolvePath(config, parsePath(input));
+    const parent = getAt(config, path.slice(0, -1));
+    const last = path[path.length - 1]!;
+
+    if (!isContainer(parent) || getAt(config, path) === undefined) {
+      throw new Error(`${formatPath(path)} is not set in ${CONFIG_FILE}`);
+    }
+    if (Array.isArray(parent) && typeof last === "number") {
+      parent.splice(last, 1);
+    } else {
+      delete (parent as Record<string, unknown>)[last];
+    }
+    assertValid(config);
+    console.log(`unset ${formatPath(path)}`);
+  }, { validate: false });
+}
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+// Line diff via longest common subsequence; config files are small
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i]![j] = before[i] === after[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ op: " ", text: before[i++]! });
+      j++;
+    } else if (j < after.length && (i >= before.length || lcs[i]![j + 1]! >= lcs[i + 1]![j]!)) {
+      lines.push({ op: "+", text: after[j++]! });
+    } else {
+      lines.push({ op: "-", text: before[i++]! });
+    }
+  }
+  return lines;
+}
+
+// Print changed lines with a little context around each change
+function printDiff(lines: DiffLine[], context = 3): void {
+  const near = (index: number) =>
+    lines.slice(Math.max(0, index - context), index + context + 1).some((line) => line.op !== " ");
+
+  let skipped = false;
+  lines.forEach((line, index) => {
+    if (!near(index)) {
+      if (!skipped) console.log("\x1b[90m  ...\x1b[0m");
+      skipped = true;
+      return;
+    }
+    skipped = false;
+    const color = line.op === "+" ? "\x1b[32m" : line.op === "-" ? "\x1b[31m" : "\x1b[90m";
+    console.log(`${color}${line.op} ${line.text}\x1b[0m`);
+  });
+}
+
+async function runMigrate(args: string[]): Promise<void> {
+  const dryRun = args.includes("--dry-run");
+  const file = args.find((a) => a !== "--dry-run") ?? CONFIG_FILE;
+  await withFileLock(file, () => migrateFile(file, dryRun));
+}
+
+async function migrateFile(file: string, dryRun: boolean): Promise<void> {
+  let content: string;
+  try {
+    content = await readFile(file, "utf-8");
+  } catch {
+    console.log(`no config at ${file}; nothing to migrate`);
+    return;
+  }
+
+  const before = parseJson(content).value as Record<string, unknown>;
+  const { config: after, from, applied } = migrate(before);
+
+  if (from === CONFIG_VERSION) {
+    console.log(`${file} is already at schemaVersion ${CONFIG_VERSION}`);
+    return;
+  }
+
+  console.log(`\x1b[1m${file}\x1b[0m: schemaVersion ${from} -> ${CONFIG_VERSION}`);
+  for (const step of applied) {
+    console.log(`  ${step.version}. ${step.description}`);
+  }
+  console.log();
+
+  const text = JSON.stringify(after, null, 2);
+  printDiff(diffLines(JSON.stringify(before, null, 2).split("\n"), text.split("\n")));
+
+  if (dryRun) {
+    console.log();
+    console.log("dry run; nothing written");
+    return;
+  }
+
+  // Only the user config holds keys; a project file keeps its permissions
+  const mode = resolve(file) === resolve(CONFIG_FILE) ? 0o600 : (await stat(file)).mode & 0o777;
+  const backup = await backupConfigFile(file);
+  await writeFileAtomic(file, text, mode);
+  console.log();
+  console.log(`migrated; previous version saved to ${backup}`);
+}
+
+// `cr config <subcommand>`
+export async function runConfigCommand(args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
+
+  switch (subcommand) {
+    case "get":
+      await runGet(rest[0]);
+      return;
+    case "set":
+      await runSet(rest);
+      return;
+    case "unset":
+      await runUnset(rest[0]);
+      return;
+    case "validate":
+      await runValidate(rest[0]);
+      return;
+    case "migrate":
+      await runMigrate(rest);
+      return;
+    case "schema":
+      console.log(JSON.stringify(CONFIG_SCHEMA, null, 2));
+      return;
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+}
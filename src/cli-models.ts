@@ -0,0 +1,70 @@
+import { loadConfig } from "./config.ts";
+import { parseTarget, resolveTarget } from "./resolve.ts";
+import { mergeCatalog, modelsFor, currentModel } from "./models.ts";
+import { SCAFFOLDS } from "./presets.ts";
+
+// `cr models [variant] [--json]`: the whole catalog, or the models a variant's provider serves
+export async function runModels(args: string[]): Promise<void> {
+  const json = args.includes("--json");
+  const input = args.find((a) => a !== "--json");
+  const catalog = mergeCatalog((await loadConfig()).models);
+
+  if (!input) {
+    if (json) {
+      console.log(JSON.stringify(catalog, null, 2));
+      return;
+    }
+    const width = Math.max(...Object.keys(catalog).map((alias) => alias.length));
+    for (const [alias, entry] of Object.entries(catalog)) {
+      const scaffolds = entry.scaffolds ? `  \x1b[90m(${entry.scaffolds.join(", ")})\x1b[0m` : "";
+      console.log(`\x1b[36m${alias.padEnd(width)}\x1b[0m  ${entry.description ?? ""}${scaffolds}`);
+      const providerWidth = Math.max(...Object.keys(entry.ids).map((p) => p.length));
+      for (const [provider, id] of Object.entries(entry.ids)) {
+        console.log(`  ${provider.padEnd(providerWidth)}  \x1b[90m${id}\x1b[0m`);
+      }
+    }
+    console.log();
+    console.log("\x1b[90mrun with one: cr <variant> --cr-model <alias>; in env values: ${model:<alias>}\x1b[0m");
+    return;
+  }
+
+  const parsed = parseTarget(input);
+  if (!parsed) {
+    console.error(`\x1b[31munknown scaffold:\x1b[0m ${input}`);
+    console.error("available scaffolds: " + SCAFFOLDS.join(", "));
+    process.exit(1);
+  }
+
+  const target = await resolveTarget(parsed.scaffold, parsed.variant, { dryRun: true });
+  if (!target) {
+    console.error(`\x1b[31munknown variant:\x1b[0m ${input}`);
+    process.exit(1);
+  }
+
+  const current = currentModel(target);
+  const models = target.provider ? modelsFor(target.scaffold, target.provider, catalog) : [];
+
+  if (json) {
+    console.log(JSON.stringify({ target: input, provider: target.provider ?? null, current: current ?? null, models }, null, 2));
+    return;
+  }
+
+  if (!target.provider) {
+    console.log(`${input} has no model provider; ${parsed.scaffold} picks its model itself`);
+    return;
+  }
+
+  console.log(`\x1b[1m${input}\x1b[0m  \x1b[90mprovider ${target.provider}\x1b[0m`);
+  console.log();
+  if (models.length === 0) {
+    console.log(`  no catalog models for ${target.provider}; add some under "models" in config.json`);
+  }
+  const width = Math.max(0, ...models.map((m) => m.alias.length));
+  for (const { alias, id } of models) {
+    const mark = id === current ? "\x1b[32m●\x1b[0m" : " ";
+    console.log(`${mark} \x1b[36m${alias.padEnd(width)}\x1b[0m  ${id}`);
+  }
+  if (current && !models.some((m) => m.id === current)) {
+    console.log(`\x1b[32m●\x1b[0m ${"".padEnd(width)}  ${current} \x1b[90m(not in the catalog)\x1b[0m`);
+  }
+}
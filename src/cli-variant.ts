@@ -0,0 +1,324 @@
+import {
+  loadConfig,
+  loadConfigLayers,
+  updateConfig,
+  getVariantChain,
+  mergeVariantLayers,
+  saveVariant,
+  deleteVariant,
+} from "./config.ts";
+import { parseTarget } from "./resolve.ts";
+import { builtinVariants } from "./presets.ts";
+import { validateConfig } from "./schema.ts";
+import { formatPath } from "./json.ts";
+import type { UserVariant } from "./types.ts";
+
+const USAGE = `usage:
+  cr variant add <name> [options] [--force]   Create a user variant
+  cr variant show <name> [--json]             Print a variant's definition and resolved values
+  cr variant edit <name> [options]            Change fields of a variant
+  cr variant copy <from> <to> [--force]       Copy a variant under a new name
+  cr variant rm <name>                        Delete a user variant
+
+options:
+  --extends <variant>     Variant to build on
+  --description <text>
+  --env KEY=VALUE         Set an env var (repeatable)
+  --unset KEY             Drop an inherited env var (repeatable)
+  --arg <arg>             Default arg (repeatable; replaces the variant's args)
+  --args-merge <mode>     append, prepend or replace the base's args
+  --require VAR           Env var that must be set (repeatable)
+  --config-home / --no-config-home
+                          Run with or without an isolated config directory
+
+edit only:
+  --drop-env KEY          Remove an env var set by this variant (repeatable)
+  --clear-args            Remove this variant's default args`;
+
+interface VariantFlags {
+  extends?: string;
+  description?: string;
+  env: Record<string, string>;
+  dropEnv: string[];
+  unset: string[];
+  args?: string[];
+  clearArgs: boolean;
+  argsMerge?: UserVariant["argsMerge"];
+  require: string[];
+  configHome?: boolean;
+  force: boolean;
+  json: boolean;
+  positional: string[];
+}
+
+function parseFlags(args: string[]): VariantFlags {
+  const flags: VariantFlags = {
+    env: {},
+    dropEnv: [],
+    unset: [],
+    clearArgs: false,
+    require: [],
+    force: false,
+    json: false,
+    positional: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    // Support --flag=value as well as --flag value, so args like --arg=--verbose work
+    const eq = arg.startsWith("--") ? arg.indexOf("=") : -1;
+    const flag = eq === -1 ? arg : arg.slice(0, eq);
+    const value = (): string => {
+      if (eq !== -1) return arg.slice(eq + 1);
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case "--extends":
+        flags.extends = value();
+        break;
+      case "--description":
+        flags.description = value();
+        break;
+      case "--env": {
+        const pair = value();
+        const sep = pair.indexOf("=");
+        if (sep <= 0) throw new Error(`--env expects KEY=VALUE, got ${pair}`);
+        flags.env[pair.slice(0, sep)] = pair.slice(sep + 1);
+        break;
+      }
+      case "--drop-env":
+        flags.dropEnv.push(value());
+        break;
+      case "--unset":
+        flags.unset.push(value());
+        break;
+      case "--arg":
+        (flags.args ||= []).push(value());
+        break;
+      case "--clear-args":
+        flags.clearArgs = true;
+        break;
+      case "--args-merge":
+        flags.argsMerge = value() as UserVariant["argsMerge"];
+        break;
+      case "--require":
+        flags.require.push(value());
+        break;
+      case "--config-home":
+        flags.configHome = true;
+        break;
+      case "--no-config-home":
+        flags.configHome = false;
+        break;
+      case "--force":
+        flags.force = true;
+        break;
+      case "--json":
+        flags.json = true;
+        break;
+      default:
+        if (arg.startsWith("--")) throw new Error(`unknown option ${arg}`);
+        flags.positional.push(arg);
+    }
+  }
+  return flags;
+}
+
+function applyFlags(variant: UserVariant, flags: VariantFlags): UserVariant {
+  const result: UserVariant = { ...variant };
+  if (flags.extends !== undefined) result.extends = flags.extends;
+  if (flags.description !== undefined) result.description = flags.description;
+
+  if (Object.keys(flags.env).length > 0 || flags.dropEnv.length > 0) {
+    const env = { ...result.env, ...flags.env };
+    for (const key of flags.dropEnv) delete env[key];
+    result.env = Object.keys(env).length > 0 ? env : undefined;
+  }
+  if (flags.unset.length > 0) result.unset = [...new Set([...(result.unset || []), ...flags.unset])];
+  if (flags.clearArgs) result.defaultArgs = undefined;
+  if (flags.args) result.defaultArgs = flags.args;
+  if (flags.argsMerge !== undefined) result.argsMerge = flags.argsMerge;
+  if (flags.require.length > 0) {
+    result.requiredEnvVars = [...new Set([...(result.requiredEnvVars || []), ...flags.require])];
+  }
+  if (flags.configHome !== undefined) result.configHome = flags.configHome;
+
+  // Drop cleared fields so they don't end up as nulls in the file
+  return JSON.parse(JSON.stringify(result));
+}
+
+function isBuiltin(fullName: string): boolean {
+  const parsed = parseTarget(fullName);
+  return !!parsed?.variant && !!builtinVariants[parsed.scaffold]?.[parsed.variant];
+}
+
+function requireName(name: string | undefined, command: string): string {
+  if (!name) throw new Error(`usage: cr variant ${command} <name>`);
+  const parsed = parseTarget(name);
+  if (!parsed?.variant) {
+    throw new Error(`${name} is not a variant name; use <scaffold>.<name>, e.g. claude.work`);
+  }
+  return name;
+}
+
+// Check a variant before saving, so a typo can't break every other command
+async function checkVariant(fullName: string, variant: UserVariant): Promise<void> {
+  const issues = validateConfig({ variants: { [fullName]: variant } });
+  if (issues.length > 0) {
+    throw new Error(issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`).join("\n"));
+  }
+
+  if (variant.extends && variant.extends !== fullName) {
+    const config = await loadConfig();
+    if (!config.variants?.[variant.extends] && !isBuiltin(variant.extends)) {
+      throw new Error(`--extends: unknown variant ${variant.extends}`);
+    }
+  }
+}
+
+async function runAdd(flags: VariantFlags): Promise<void> {
+  const name = requireName(flags.positional[0], "add");
+
+  await updateConfig(async (config) => {
+    if (config.variants?.[name] && !flags.force) {
+      throw new Error(`${name} already exists; use \`cr variant edit\` or --force to replace it`);
+    }
+    // Without --extends, a variant named after a builtin would silently shadow it
+    const base: UserVariant = isBuiltin(name) && !flags.extends ? { extends: name } : {};
+
+    const variant = applyFlags(base, flags);
+    await checkVariant(name, variant);
+    (config.variants ||= {})[name] = variant;
+  });
+  console.log(`\x1b[32m✓\x1b[0m added ${name}`);
+}
+
+// A variant only a preset or .coderouter.json defines can't be edited here:
+// saving it would copy that definition into the user config
+async function notInUserConfig(name: string): Promise<Error> {
+  const layers = await loadConfigLayers();
+  const layer = layers.find((l) => l.kind !== "user" && l.config.variants?.[name]);
+  if (!layer) return new Error(`unknown variant ${name}`);
+  return new Error(`${name} is defined in ${layer.path}, not your config; edit it there or use \`cr variant copy\``);
+}
+
+async function runEdit(flags: VariantFlags): Promise<void> {
+  const name = requireName(flags.positional[0], "edit");
+
+  await updateConfig(async (config) => {
+    const existing = config.variants?.[name];
+
+    let base: UserVariant;
+    if (existing) {
+      base = existing;
+    } else if (isBuiltin(name)) {
+      // Editing a builtin overrides it with a user variant of the same name
+      base = { extends: name };
+    } else {
+      throw await notInUserConfig(name);
+    }
+
+    const variant = applyFlags(base, flags);
+    await checkVariant(name, variant);
+    (config.variants ||= {})[name] = variant;
+  });
+  console.log(`\x1b[32m✓\x1b[0m updated ${name}`);
+}
+
+async function runCopy(flags: VariantFlags): Promise<void> {
+  const [from, to] = flags.positional;
+  if (!from || !to) throw new Error("usage: cr variant copy <from> <to>");
+  requireName(to, "copy");
+
+  const config = await loadConfig();
+  if (config.variants?.[to] && !flags.force) {
+    throw new Error(`${to} already exists; use --force to replace it`);
+  }
+
+  let variant: UserVariant;
+  const user = config.variants?.[from];
+  if (user && user.extends !== from) {
+    variant = structuredClone(user);
+  } else {
+    // Builtins (and overrides of them) are copied with everything spelled out
+    const parsed = parseTarget(from);
+    const layers = parsed?.variant ? await getVariantChain(parsed.scaffold, parsed.variant) : undefined;
+    if (!layers) throw new Error(`unknown variant ${from}`);
+    const { name: _, ...merged } = mergeVariantLayers(parsed!.variant!, layers);
+    variant = JSON.parse(JSON.stringify(merged));
+  }
+
+  await checkVariant(to, variant);
+  await saveVariant(to, variant);
+  console.log(`\x1b[32m✓\x1b[0m copied ${from} to ${to}`);
+}
+
+async function runRemove(flags: VariantFlags): Promise<void> {
+  const name = requireName(flags.positional[0], "rm");
+
+  if (!(await deleteVariant(name))) {
+    throw new Error(
+      isBuiltin(name) ? `${name} is a builtin variant and can't be removed` : `${name} is not in your config`
+    );
+  }
+  const restored = isBuiltin(name) ? " (the builtin is used again)" : "";
+  console.log(`\x1b[32m✓\x1b[0m removed ${name}${restored}`);
+}
+
+async function runShow(flags: VariantFlags): Promise<void> {
+  const name = requireName(flags.positional[0], "show");
+  const parsed = parseTarget(name)!;
+  const layers = await getVariantChain(parsed.scaffold, parsed.variant!);
+  if (!layers) throw new Error(`unknown variant ${name}`);
+
+  const own = layers[layers.length - 1]!;
+  const { name: _, ...resolved } = mergeVariantLayers(parsed.variant!, layers);
+
+  if (flags.json) {
+    const definition = own.source === "user" ? own.variant : null;
+    console.log(JSON.stringify({ name, source: own.source, file: own.file, definition, resolved }, null, 2));
+    return;
+  }
+
+  const chain = layers.map((layer) => layer.name).join(" -> ");
+  console.log(`\x1b[1m${name}\x1b[0m \x1b[90m${own.source === "user" ? own.file : "builtin"}\x1b[0m`);
+  if (layers.length > 1) console.log(`\x1b[90mchain: ${chain}\x1b[0m`);
+  if (own.source === "user") {
+    console.log();
+    console.log("definition:");
+    console.log(JSON.stringify(own.variant, null, 2).replace(/^/gm, "  "));
+  }
+  console.log();
+  console.log("resolved:");
+  console.log(JSON.stringify(resolved, null, 2).replace(/^/gm, "  "));
+}
+
+// `cr variant <subcommand>`
+export async function runVariantCommand(args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
+
+  switch (subcommand) {
+    case "add":
+      await runAdd(parseFlags(rest));
+      return;
+    case "show":
+      await runShow(parseFlags(rest));
+      return;
+    case "edit":
+      await runEdit(parseFlags(rest));
+      return;
+    case "copy":
+      await runCopy(parseFlags(rest));
+      return;
+    case "rm":
+    case "remove":
+      await runRemove(parseFlags(rest));
+      return;
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+}
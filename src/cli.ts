@@ -1,11 +1,29 @@
 #!/usr/bin/env bun
 
-import { getVariant, getAllVariants, ensureOpencodeConfig, CONFIG_FILE, saveAuth, getAuth } from "./config.ts";
+import { access, rm } from "node:fs/promises";
+import { getVariant, getAllVariants, CONFIG_FILE, PROJECT_CONFIG_NAME, PRESETS_DIR, PRESETS_ENV, useConfigFile, saveAuth, getAuthRefs, loadConfigLayers, configHomeDir } from "./config.ts";
+import { isSecretRef, resolveSecret } from "./secrets.ts";
 import * as p from "@clack/prompts";
 import { run } from "./runner.ts";
-import { builtinVariants, isScaffold, SCAFFOLDS } from "./presets.ts";
+import { runProxyCommand } from "./proxy.ts";
+import { parseTarget, resolveTarget, checkRequiredEnvVars } from "./resolve.ts";
+import { runRoute, getRoute } from "./routes.ts";
+import { runExplain, explainTarget, printExplanation, printRules } from "./explain.ts";
+import { selectRule, type RuleResult } from "./rules.ts";
+import { parseRunFlags, applyRunOverrides, RUN_FLAGS_HELP } from "./flags.ts";
+import { runEnv } from "./env.ts";
+import { runHistory, runStats, shortPath } from "./history.ts";
+import { runUsage } from "./usage.ts";
+import { runDoctor } from "./doctor.ts";
+import { runConfigCommand } from "./cli-config.ts";
+import { runVariantCommand } from "./cli-variant.ts";
+import { runExport, runImport } from "./bundle.ts";
+import { runModels } from "./cli-models.ts";
+import { runFanout } from "./fanout.ts";
+import { runBatch } from "./batch.ts";
+import { SCAFFOLDS, ISOLATED_BY_DEFAULT } from "./presets.ts";
 import { runSetup } from "./setup.ts";
-import type { Scaffold, ResolvedTarget } from "./types.ts";
+import type { Scaffold, ConfigHome } from "./types.ts";
 import pkg from "../package.json";
 
 const VERSION = pkg.version;
@@ -15,6 +33,8 @@ const HELP = `
 
 \x1b[1mUSAGE\x1b[0m
   cr <scaffold>[.variant] [args...]
+  cr <route> [args...]
+  cr run [args...]   (or cr . [args...]) Run the target picked by your rules
 
 \x1b[1mSCAFFOLDS\x1b[0m
   claude      Claude Code CLI
@@ -22,10 +42,15 @@ const HELP = `
   codex       OpenAI Codex CLI
   gemini      Google Gemini CLI
 
+\x1b[1mRUN OPTIONS\x1b[0m
+${RUN_FLAGS_HELP}
+
 \x1b[1mEXAMPLES\x1b[0m
   cr claude.aws --dangerously-skip-permissions
   cr claude.vertex "fix the tests"
-  cr claude.glm
+  cr claude.glm --cr-env API_TIMEOUT_MS=600000
+  cr claude.aws --cr-region us-east-1
+  cr claude.vertex --cr-model sonnet
   cr opencode.omoc --resume
   cr opencode
   cr codex
@@ -39,108 +64,50 @@ const HELP = `
   claude.minimax    MiniMax M2.1
   claude.kimi       Moonshot Kimi K2
   claude.openrouter OpenRouter API
+  claude.ollama     Ollama (local OpenAI proxy)
+  claude.lmstudio   LM Studio (local OpenAI proxy)
   opencode.omoc     oh-my-opencode
+  codex.high        GPT-5 Codex, high reasoning effort
+  codex.openai      OpenAI API key instead of ChatGPT login
+  codex.openrouter  OpenRouter API
+  codex.ollama      Local gpt-oss via Ollama
   gemini.pro        Gemini Pro model
   gemini.flash      Gemini Flash model
+  gemini.vertex     Google Cloud Vertex AI
+  gemini.apikey     Gemini API key
 
 \x1b[1mCOMMANDS\x1b[0m
   cr auth <variant> Set up API key for a variant
   cr setup          Configure a scaffold
+  cr proxy <variant> Run the Anthropic-to-OpenAI proxy in the foreground
+  cr reset <variant> Delete a variant's isolated config home
+  cr explain <variant> Show resolved env and args and where each came from (cr explain . shows the matching rule)
+  cr --dry-run <variant> [args...] Same as explain, for a full command line
+  cr env <variant>  Print a variant's env for shells, .env files or JSON (--format, --redact)
+  cr history        Recent runs (--variant, --repo, --since, --until, --limit, --json)
+  cr stats          Runs, hours and failure rate per variant (same filters)
+  cr usage          Tokens and estimated cost per variant (--by variant|repo|day, --json)
+  cr doctor [variant] Check installs, config, credentials and env (--json for CI)
+  cr variant add|show|edit|copy|rm <name> Manage variants without the setup wizard
+  cr fanout <a,b,...> -- "prompt" Run a prompt on several variants, each in its own git worktree (--concurrency, --base)
+  cr batch <tasks.json> Run a file of headless tasks (--concurrency, --retries, --continue-on-error, --results)
+  cr models [variant] Model aliases and their ID per provider (--json)
+  cr export [patterns] Print user variants as a shareable bundle, without secrets (--resolved)
+  cr import <file>  Add variants from a bundle (--on-conflict skip|overwrite|rename)
+  cr config get|set|unset <path> Read or change a config value, e.g. routes.fast
+  cr config validate Check config files, with line and column for each error
+  cr config schema  Print the JSON Schema for config files
+  cr config migrate Upgrade config.json to the current format (--dry-run shows the diff)
   cr list           List available scaffolds and variants
   cr --help         Show this help
   cr --version      Show version
 
 \x1b[1mCONFIG\x1b[0m
+  ${PRESETS_DIR}/*.json and $${PRESETS_ENV} (presets, below your config)
   ${CONFIG_FILE}
+  ${PROJECT_CONFIG_NAME} in the current directory or any parent (merged over it)
 `;
 
-function parseTarget(input: string): { scaffold: Scaffold; variant: string | null } | null {
-  const parts = input.split(".");
-  const scaffold = parts[0];
-
-  if (!isScaffold(scaffold)) {
-    return null;
-  }
-
-  const variant = parts.length > 1 ? parts.slice(1).join(".") : null;
-  return { scaffold, variant };
-}
-
-async function resolveTarget(
-  scaffold: Scaffold,
-  variant: string | null
-): Promise<ResolvedTarget | null> {
-  const env: Record<string, string> = {};
-  let defaultArgs: string[] = [];
-  let requiredEnvVars: string[] = [];
-
-  if (scaffold === "opencode") {
-    // Handle opencode specially - manage XDG_CONFIG_HOME
-    const isOmoc = variant === "omoc";
-    const xdgDir = await ensureOpencodeConfig(isOmoc ? "omoc" : "vanilla");
-    env.XDG_CONFIG_HOME = xdgDir;
-
-    return {
-      scaffold,
-      variant,
-      command: "opencode",
-      env,
-      defaultArgs: [],
-      requiredEnvVars: [],
-    };
-  }
-
-  if (scaffold === "codex") {
-    return {
-      scaffold,
-      variant: null,
-      command: "codex",
-      env: {},
-      defaultArgs: [],
-      requiredEnvVars: [],
-    };
-  }
-
-  if (scaffold === "gemini") {
-    if (variant) {
-      const v = await getVariant("gemini", variant);
-      if (v) {
-        Object.assign(env, v.env);
-        defaultArgs = v.defaultArgs || [];
-        requiredEnvVars = v.requiredEnvVars || [];
-      }
-    }
-    return {
-      scaffold,
-      variant,
-      command: "gemini",
-      env,
-      defaultArgs,
-      requiredEnvVars,
-    };
-  }
-
-  // claude scaffold
-  if (variant) {
-    const v = await getVariant("claude", variant);
-    if (!v) {
-      return null; // variant not found
-    }
-    Object.assign(env, v.env);
-    defaultArgs = v.defaultArgs || [];
-    requiredEnvVars = v.requiredEnvVars || [];
-  }
-
-  return {
-    scaffold,
-    variant,
-    command: "claude",
-    env,
-    defaultArgs,
-    requiredEnvVars,
-  };
-}
-
 // Help text for required env vars, keyed by "variant:envvar" or just "envvar"
 const ENV_VAR_HELP: Record<string, string> = {
   // Variant-specific hints
@@ -149,12 +116,18 @@ const ENV_VAR_HELP: Record<string, string> = {
   "kimi:ANTHROPIC_AUTH_TOKEN": "Get from https://platform.moonshot.cn/console/api-keys",
   "openrouter:ANTHROPIC_AUTH_TOKEN": "Get from https://openrouter.ai/settings/keys",
   "vertex:ANTHROPIC_VERTEX_PROJECT_ID": "Your GCP project ID (run: gcloud config get-value project)",
+  "openrouter:OPENROUTER_API_KEY": "Get from https://openrouter.ai/settings/keys",
+  "vertex:GOOGLE_CLOUD_PROJECT": "Your GCP project ID; also run: gcloud auth application-default login",
 
   // Generic fallbacks
   ANTHROPIC_AUTH_TOKEN: "Get from your provider's API key dashboard",
   ANTHROPIC_API_KEY: "Get from https://console.anthropic.com/settings/keys",
   ANTHROPIC_FOUNDRY_RESOURCE: "Your resource name from the Azure AI Foundry portal",
   ANTHROPIC_VERTEX_PROJECT_ID: "Your GCP project ID",
+  OPENAI_API_KEY: "Get from https://platform.openai.com/api-keys",
+  AZURE_OPENAI_API_KEY: "Keys and Endpoint page of your Azure OpenAI resource",
+  GEMINI_API_KEY: "Get from https://aistudio.google.com/apikey",
+  GOOGLE_CLOUD_PROJECT: "Your GCP project ID (run: gcloud config get-value project)",
 };
 
 function getEnvVarHint(variant: string | null, envVar: string): string | null {
@@ -167,24 +140,6 @@ function getEnvVarHint(variant: string | null, envVar: string): string | null {
   return ENV_VAR_HELP[envVar] || null;
 }
 
-async function checkRequiredEnvVars(target: ResolvedTarget): Promise<string[]> {
-  const missing: string[] = [];
-
-  // Get auth for this target (uses glob matching)
-  const fullTarget = target.variant
-    ? `${target.scaffold}.${target.variant}`
-    : target.scaffold;
-  const auth = await getAuth(fullTarget);
-
-  for (const key of target.requiredEnvVars) {
-    // Check process.env first, then saved auth
-    if (!process.env[key] && !auth[key]) {
-      missing.push(key);
-    }
-  }
-  return missing;
-}
-
 function printMissingEnvVarsError(scaffold: Scaffold, variant: string | null, missing: string[]): void {
   console.error(`\x1b[31mmissing required credentials\x1b[0m`);
   console.error();
@@ -212,7 +167,7 @@ async function showAuthTargets(): Promise<void> {
     for (const [name, variant] of Object.entries(variants)) {
       if (variant.requiredEnvVars && variant.requiredEnvVars.length > 0) {
         const target = `${scaffold}.${name}`;
-        const auth = await getAuth(target);
+        const auth = await getAuthRefs(target);
         const allSet = variant.requiredEnvVars.every(
           (v) => process.env[v] || auth[v]
         );
@@ -258,6 +213,8 @@ async function runAuth(target: string): Promise<void> {
     return;
   }
 
+  console.log();
+  console.log("\x1b[90mValues can also be references: env:VAR, file:~/path, cmd:op read op://...\x1b[0m");
   console.log();
 
   for (const envVar of requiredEnvVars) {
@@ -279,16 +236,81 @@ async function runAuth(target: string): Promise<void> {
       process.exit(0);
     }
 
-    await saveAuth(`${scaffold}.${variant}`, envVar, value.trim());
+    const trimmed = value.trim();
+    if (isSecretRef(trimmed)) {
+      // Fail now rather than on the first run
+      try {
+        await resolveSecret(trimmed);
+      } catch (err) {
+        console.error(`\x1b[31mcould not resolve ${trimmed}:\x1b[0m ${(err as Error).message}`);
+        process.exit(1);
+      }
+    }
+
+    await saveAuth(`${scaffold}.${variant}`, envVar, trimmed);
   }
 
   console.log();
   console.log(`\x1b[32mSaved!\x1b[0m Run with: cr ${target}`);
 }
 
+async function runReset(target: string | undefined, yes: boolean): Promise<void> {
+  const parsed = target ? parseTarget(target) : null;
+
+  if (!parsed) {
+    console.error("usage: cr reset <scaffold>.<variant> [--yes]");
+    console.error("example: cr reset claude.glm");
+    process.exit(1);
+  }
+
+  const { scaffold, variant } = parsed;
+  let home: boolean | ConfigHome = scaffold === "opencode";
+
+  if (variant) {
+    const v = await getVariant(scaffold, variant);
+    if (!v) {
+      console.error(`\x1b[31munknown variant:\x1b[0m ${target}`);
+      console.error(`run \x1b[36mcr list\x1b[0m to see available variants`);
+      process.exit(1);
+    }
+    home = v.configHome ?? ISOLATED_BY_DEFAULT[scaffold];
+  }
+
+  if (!home) {
+    console.log(`\x1b[33m${target}\x1b[0m doesn't use its own config home.`);
+    return;
+  }
+
+  const dir = configHomeDir(scaffold, variant ?? "vanilla", home);
+  try {
+    await access(dir);
+  } catch {
+    console.log(`nothing to reset: ${dir} doesn't exist`);
+    return;
+  }
+
+  if (!yes) {
+    const confirmed = await p.confirm({
+      message: `Delete ${dir}? History, settings and logins for ${target} will be lost.`,
+      initialValue: false,
+    });
+    if (p.isCancel(confirmed) || !confirmed) {
+      p.cancel("cancelled");
+      return;
+    }
+  }
+
+  await rm(dir, { recursive: true, force: true });
+  console.log(`\x1b[32mReset!\x1b[0m ${target} starts fresh on its next run.`);
+}
+
 async function listAll(): Promise<void> {
   console.log("\x1b[1mAvailable scaffolds and variants:\x1b[0m\n");
 
+  // The file whose definition applies; builtins have none
+  const layers = await loadConfigLayers();
+  const sourceOf = (fullName: string) => layers.findLast((l) => l.config.variants?.[fullName])?.path;
+
   for (const scaffold of SCAFFOLDS) {
     console.log(`\x1b[36m${scaffold}\x1b[0m  \x1b[90mcr ${scaffold}\x1b[0m`);
 
@@ -297,10 +319,14 @@ async function listAll(): Promise<void> {
 
     for (const name of variantNames) {
       const v = variants[name]!;
-      console.log(`  .${name}  ${v.description}  \x1b[90mcr ${scaffold}.${name}\x1b[0m`);
+      const source = sourceOf(`${scaffold}.${name}`);
+      const from = source ? `  (${shortPath(source)})` : "";
+      console.log(`  .${name}  ${v.description}  \x1b[90mcr ${scaffold}.${name}${from}\x1b[0m`);
     }
     console.log();
   }
+
+  console.log(`\x1b[90mconfig: ${layers.map((l) => l.path).join(", ")}\x1b[0m`);
 }
 
 async function main(): Promise<void> {
@@ -330,16 +356,132 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (args[0] === "explain") {
+    await runExplain(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "--dry-run") {
+    await runExplain(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "history") {
+    await runHistory(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "stats") {
+    await runStats(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "config") {
+    await runConfigCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "variant") {
+    await runVariantCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "fanout") {
+    await runFanout(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "batch") {
+    await runBatch(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "models") {
+    await runModels(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "export") {
+    await runExport(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "import") {
+    await runImport(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "doctor") {
+    await runDoctor(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "usage") {
+    await runUsage(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "env") {
+    await runEnv(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "reset") {
+    await runReset(args[1], args.includes("--yes") || args.includes("-y"));
+    return;
+  }
+
+  if (args[0] === "proxy") {
+    await runProxyCommand(args.slice(1));
+    return;
+  }
+
   if (args[0] === "list" || args[0] === "ls") {
     await listAll();
     return;
   }
 
+  // --cr-* flags tweak this run and are not passed to the scaffold
+  const { overrides, args: runArgs } = parseRunFlags(args);
+  if (overrides.config) await useConfigFile(overrides.config);
+  const [first, ...restArgs] = runArgs;
+  let input = first;
+  if (!input) {
+    console.error("usage: cr [--cr-* options] <scaffold>[.variant] [args...]");
+    process.exit(1);
+  }
+
+  // `cr run` / `cr .`: the first matching rule in config picks the target
+  let rules: RuleResult[] | undefined;
+  if (input === "run" || input === ".") {
+    const { tried, match } = await selectRule(restArgs);
+    if (!match) {
+      printRules(tried, console.error);
+      console.error();
+      console.error(`run \x1b[36mcr <scaffold>.<variant>\x1b[0m, or add a rule for ${process.cwd()}`);
+      process.exit(1);
+    }
+    if (!overrides.quiet && !overrides.dryRun) {
+      console.error(`\x1b[90m[cr]\x1b[0m rule ${match.name} -> \x1b[36m${match.target}\x1b[0m`);
+    }
+    rules = tried;
+    input = match.target;
+  }
+
   // Parse scaffold.variant
-  const parsed = parseTarget(args[0]!);
+  const parsed = parseTarget(input);
 
   if (!parsed) {
-    console.error(`\x1b[31munknown scaffold:\x1b[0m ${args[0]}`);
+    const route = await getRoute(input);
+    if (route) {
+      if (rules && overrides.dryRun) {
+        printRules(rules);
+        console.log();
+      }
+      process.exit(await runRoute(input, route, restArgs, overrides));
+    }
+
+    console.error(`\x1b[31munknown scaffold or route:\x1b[0m ${input}`);
     console.error();
     console.error("available scaffolds: " + SCAFFOLDS.join(", "));
     console.error("run \x1b[36mcr --help\x1b[0m for usage");
@@ -347,7 +489,17 @@ async function main(): Promise<void> {
   }
 
   const { scaffold, variant } = parsed;
-  const target = await resolveTarget(scaffold, variant);
+
+  if (overrides.dryRun) {
+    const explanation = await explainTarget(scaffold, variant, restArgs, overrides);
+    if (explanation) {
+      if (rules) explanation.rules = rules;
+      printExplanation(explanation);
+      return;
+    }
+  }
+
+  const target = await resolveTarget(scaffold, variant, { model: overrides.model });
 
   if (!target) {
     console.error(`\x1b[31munknown variant:\x1b[0m ${scaffold}.${variant}`);
@@ -357,6 +509,8 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  applyRunOverrides(target, overrides);
+
   // Check for required env vars (considers saved secrets)
   const missing = await checkRequiredEnvVars(target);
   if (missing.length > 0) {
@@ -364,12 +518,11 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const restArgs = args.slice(1);
-  const exitCode = await run(target, restArgs);
+  const exitCode = await run(target, restArgs, { quiet: overrides.quiet });
   process.exit(exitCode);
 }
 
 main().catch((e) => {
-  console.error(e);
+  console.error(e instanceof Error ? `\x1b[31merror:\x1b[0m ${e.message}` : e);
   process.exit(1);
 });
@@ -1,11 +1,35 @@
 import { homedir } from "node:os";
-import { join } from "node:path";
-import { mkdir, access, readFile, writeFile, cp } from "node:fs/promises";
-import type { Config, Scaffold, BuiltinVariant, UserVariant } from "./types.ts";
-import { builtinVariants } from "./presets.ts";
+import { join, dirname, delimiter, resolve, sep } from "node:path";
+import { mkdir, access, readFile, readdir, stat, writeFile, cp, copyFile, rename, rm } from "node:fs/promises";
+import type { Config, ConfigHome, Scaffold, BuiltinVariant, UserVariant, ValueSource, TracedValue, VariantTrace } from "./types.ts";
+import { builtinVariants, isScaffold } from "./presets.ts";
+import { resolveSecret, isSecretRef, isCommandRef, expandHome } from "./secrets.ts";
+import { parseJson, formatPath, JsonSyntaxError, type ParsedJson } from "./json.ts";
+import { validateConfig } from "./schema.ts";
+import { migrate, configVersion, CONFIG_VERSION } from "./migrations.ts";
+import { writeFileAtomic, withFileLock, ensurePrivate, fileTimestamp } from "./files.ts";
+
+export const CONFIG_DIR = join(process.env.XDG_CONFIG_HOME || join(homedir(), ".config"), "coderouter");
+const DEFAULT_CONFIG_FILE = join(CONFIG_DIR, "config.json");
+export let CONFIG_FILE = process.env.CODEROUTER_CONFIG || DEFAULT_CONFIG_FILE;
+
+// Use another file as the user config for the rest of this process (--cr-config)
+export async function useConfigFile(path: string): Promise<void> {
+  try {
+    await access(path);
+  } catch {
+    throw new Error(`config file not found: ${path}`);
+  }
+  CONFIG_FILE = resolve(path);
+}
+
+// Repo-level config, found by walking up from the cwd
+export const PROJECT_CONFIG_NAME = ".coderouter.json";
 
-export const CONFIG_DIR = join(homedir(), ".config", "coderouter");
-export const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+// Drop-in variant definitions, e.g. installed by config management. Every
+// *.json file in these is loaded in name order, below the user config.
+export const PRESETS_DIR = join(CONFIG_DIR, "presets.d");
+export const PRESETS_ENV = "CODEROUTER_PRESETS";
 
 // Directories for opencode configs
 export const OPENCODE_VANILLA_DIR = join(CONFIG_DIR, "opencode-vanilla");
@@ -19,81 +43,285 @@ export async function ensureConfigDir(): Promise<void> {
   }
 }
 
-export async function loadConfig(): Promise<Config> {
-  try {
-    await access(CONFIG_FILE);
-  } catch {
-    return {};
+// A config file that contributes to the merged config
+export interface ConfigLayer {
+  path: string;
+  kind: "preset" | "user" | "project";
+  config: Config;
+}
+
+// A config problem with the file and, when known, where in it
+export interface ConfigIssue {
+  file: string;
+  line?: number;
+  column?: number;
+  // Dotted location in the config, e.g. variants["claude.glm"].env
+  path?: string;
+  message: string;
+}
+
+function formatIssue(issue: ConfigIssue): string {
+  const location = issue.line ? `${issue.file}:${issue.line}:${issue.column}` : issue.file;
+  const path = issue.path ? `${issue.path}: ` : "";
+  return `${location}: ${path}${issue.message}`;
+}
+
+export class ConfigError extends Error {
+  constructor(public issues: ConfigIssue[]) {
+    super(`invalid config\n${issues.map((issue) => `  ${formatIssue(issue)}`).join("\n")}`);
+    this.name = "ConfigError";
   }
+}
 
+// Parse and validate config text; never throws. Preset files are shared, so
+// they may not carry credentials. `unchecked` is the parsed and migrated
+// config even when it fails the schema.
+export function checkConfigText(
+  file: string,
+  content: string,
+  options: { preset?: boolean } = {}
+): { config: Config | null; unchecked?: Config; issues: ConfigIssue[] } {
+  let parsed: ParsedJson;
   try {
-    const content = await readFile(CONFIG_FILE, "utf-8");
-    const config = JSON.parse(content) as Config;
-    return migrateConfig(config);
-  } catch {
-    return {};
+    parsed = parseJson(content);
+  } catch (err) {
+    if (!(err instanceof JsonSyntaxError)) throw err;
+    return { config: null, issues: [{ file, ...err.position, message: err.message }] };
+  }
+
+  // Older layouts are migrated first so they don't count as errors
+  let config = parsed.value as Config;
+  if (typeof config === "object" && config !== null && !Array.isArray(config)) {
+    try {
+      config = migrate(config as Record<string, unknown>).config as Config;
+    } catch (err) {
+      const position = parsed.locate(["schemaVersion"]);
+      return { config: null, issues: [{ file, ...position, path: "schemaVersion", message: (err as Error).message }] };
+    }
+  }
+
+  const issues = validateConfig(config).map((issue): ConfigIssue => ({
+    file,
+    ...parsed.locate(issue.path, { key: issue.atKey }),
+    path: issue.path.length > 0 ? formatPath(issue.path) : undefined,
+    message: issue.message,
+  }));
+
+  if (options.preset && config?.auth !== undefined) {
+    issues.push({
+      file,
+      ...parsed.locate(["auth"], { key: true }),
+      path: "auth",
+      message: "presets can't contain auth; keys belong in your own config (cr auth)",
+    });
   }
+
+  const unchecked = typeof config === "object" && config !== null && !Array.isArray(config) ? config : undefined;
+  return { config: issues.length === 0 ? config : null, unchecked, issues };
 }
 
-// Migrate old config format to new format
-function migrateConfig(config: Config & { secrets?: Record<string, string>; variants?: unknown }): Config {
-  // Migrate old secrets format to new auth format
-  if (config.secrets && typeof config.secrets === "object") {
-    if (!config.auth) config.auth = {};
+export async function checkConfigFile(file: string, options: { preset?: boolean } = {}): Promise<ConfigIssue[]> {
+  return checkConfigText(file, await readFile(file, "utf-8"), options).issues;
+}
 
-    for (const [key, value] of Object.entries(config.secrets)) {
-      // Old format: "claude.glm:ANTHROPIC_AUTH_TOKEN" -> "sk-..."
-      const match = key.match(/^([^:]+):(.+)$/);
-      if (match) {
-        const [, target, envVar] = match;
-        const authKey = `${target}*`;
-        if (!config.auth[authKey]) config.auth[authKey] = {};
-        config.auth[authKey][envVar] = value;
+const missingPresets = new Set<string>();
+
+// Preset files: presets.d, then each entry of $CODEROUTER_PRESETS (a
+// directory or a file). Later files take priority.
+export async function findPresetFiles(): Promise<string[]> {
+  const entries = [PRESETS_DIR, ...(process.env[PRESETS_ENV] || "").split(delimiter).filter(Boolean)];
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    let isDirectory: boolean;
+    try {
+      isDirectory = (await stat(entry)).isDirectory();
+    } catch {
+      if (entry !== PRESETS_DIR && !missingPresets.has(entry)) {
+        missingPresets.add(entry);
+        console.error(`\x1b[33mwarning:\x1b[0m ${PRESETS_ENV}: ${entry} not found`);
       }
+      continue;
     }
 
-    delete config.secrets;
+    if (!isDirectory) {
+      files.push(entry);
+      continue;
+    }
+    const names = (await readdir(entry)).filter((name) => name.endsWith(".json")).sort();
+    files.push(...names.map((name) => join(entry, name)));
   }
+  return files;
+}
 
-  // Migrate old variants format (nested by scaffold) to new flat format
-  if (config.variants && typeof config.variants === "object") {
-    const oldVariants = config.variants as Record<string, Record<string, BuiltinVariant>>;
-    const newVariants: Record<string, UserVariant> = {};
-
-    for (const [scaffold, variants] of Object.entries(oldVariants)) {
-      if (typeof variants === "object" && variants !== null) {
-        // Check if it's old format (has nested scaffold keys)
-        const firstValue = Object.values(variants)[0];
-        if (firstValue && typeof firstValue === "object" && "name" in firstValue) {
-          // Old format - migrate
-          for (const [name, variant] of Object.entries(variants)) {
-            const fullName = `${scaffold}.${name}`;
-            newVariants[fullName] = {
-              description: variant.description,
-              env: variant.env,
-              defaultArgs: variant.defaultArgs,
-              requiredEnvVars: variant.requiredEnvVars,
-            };
-          }
-        }
-      }
+async function readConfigFile(
+  path: string,
+  options: { preset?: boolean; validate?: boolean } = {}
+): Promise<Config | null> {
+  try {
+    await access(path);
+  } catch {
+    return null;
+  }
+
+  // A broken file must not look like an empty one: variants and saved keys
+  // would silently vanish, and the next save would overwrite the file
+  const { config, unchecked, issues } = checkConfigText(path, await readFile(path, "utf-8"), options);
+  if (options.validate === false && unchecked) return unchecked;
+  if (!config) throw new ConfigError(issues);
+  return config;
+}
+
+// Find the nearest .coderouter.json in dir or any of its parents
+export async function findProjectConfig(dir: string = process.cwd()): Promise<string | null> {
+  let current = dir;
+  while (true) {
+    const candidate = join(current, PROJECT_CONFIG_NAME);
+    try {
+      await access(candidate);
+      return candidate;
+    } catch {
+      // keep walking up
     }
 
-    if (Object.keys(newVariants).length > 0) {
-      config.variants = newVariants;
+    const parent = dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+// The user's own config file, without project layers. Mutators must use this
+// so project settings never get copied into the user's config. With
+// validate: false a file that fails the schema is still returned, as long as
+// it parses.
+export async function loadUserConfig(options: { validate?: boolean } = {}): Promise<Config> {
+  // It holds API keys
+  if (CONFIG_FILE === DEFAULT_CONFIG_FILE) await ensurePrivate(CONFIG_FILE, 0o600);
+  return (await readConfigFile(CONFIG_FILE, options)) || {};
+}
+
+// Config files in increasing priority: presets, user config, then project config
+export async function loadConfigLayers(): Promise<ConfigLayer[]> {
+  const layers: ConfigLayer[] = [];
+
+  for (const path of await findPresetFiles()) {
+    const config = await readConfigFile(path, { preset: true });
+    if (config) layers.push({ path, kind: "preset", config });
+  }
+
+  layers.push({ path: CONFIG_FILE, kind: "user", config: await loadUserConfig() });
+
+  const projectFile = await findProjectConfig();
+  if (projectFile) {
+    const config = await readConfigFile(projectFile);
+    if (config) layers.push({ path: projectFile, kind: "project", config });
+  }
+
+  return layers;
+}
+
+function mergeRecords<T>(
+  base: Record<string, T> | undefined,
+  overlay: Record<string, T> | undefined
+): Record<string, T> | undefined {
+  if (!base) return overlay;
+  if (!overlay) return base;
+  return { ...base, ...overlay };
+}
+
+// Overlay one config on another: variants, routes and models are replaced by name,
+// auth is merged per pattern so a project can add vars to a user's pattern, and
+// the overlay's rules are tried before the base's
+export function mergeConfigs(base: Config, overlay: Config): Config {
+  const auth = mergeRecords(base.auth, overlay.auth);
+  if (auth && base.auth && overlay.auth) {
+    for (const pattern of Object.keys(overlay.auth)) {
+      auth[pattern] = { ...base.auth[pattern], ...overlay.auth[pattern] };
     }
   }
 
-  return config;
+  return {
+    ...base,
+    ...overlay,
+    variants: mergeRecords(base.variants, overlay.variants),
+    auth,
+    routes: mergeRecords(base.routes, overlay.routes),
+    models: mergeRecords(base.models, overlay.models),
+    rules: base.rules && overlay.rules ? [...overlay.rules, ...base.rules] : (overlay.rules ?? base.rules),
+  };
 }
 
+// The effective config: user config with any project config merged over it
+export async function loadConfig(): Promise<Config> {
+  const layers = await loadConfigLayers();
+  return layers.reduce<Config>((merged, layer) => mergeConfigs(merged, layer.config), {});
+}
+
+// Copy a config file aside as <file>.bak-<timestamp>, returning the copy's path
+export async function backupConfigFile(path: string): Promise<string> {
+  const backup = `${path}.bak-${fileTimestamp(new Date())}`;
+  await copyFile(path, backup);
+  // copyFile keeps the mode; the default config's backup holds keys either way
+  if (resolve(path) === DEFAULT_CONFIG_FILE) await ensurePrivate(backup, 0o600);
+  return backup;
+}
+
+// Whether the file on disk predates CONFIG_VERSION (or can't be read as JSON)
+async function isOutdated(path: string): Promise<boolean> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch {
+    return false;
+  }
+  try {
+    return configVersion(JSON.parse(content)) < CONFIG_VERSION;
+  } catch {
+    return true;
+  }
+}
+
+// A file the user pointed cr at (CODEROUTER_CONFIG, --cr-config) may be shared
+// or checked in, so it keeps its permissions; only files cr creates are private
+async function configFileMode(): Promise<number> {
+  if (CONFIG_FILE === DEFAULT_CONFIG_FILE) return 0o600;
+  try {
+    return (await stat(CONFIG_FILE)).mode & 0o777;
+  } catch {
+    return 0o600;
+  }
+}
+
+// Write the user config. Prefer updateConfig, which also holds the lock.
 export async function saveConfig(config: Config): Promise<void> {
-  await ensureConfigDir();
-  await writeFile(CONFIG_FILE, JSON.stringify(config, null, 2), "utf-8");
+  // Writing would persist a migration; keep the original around
+  if (await isOutdated(CONFIG_FILE)) {
+    const backup = await backupConfigFile(CONFIG_FILE);
+    console.error(`\x1b[90m[cr] upgraded config format; previous version saved to ${backup}\x1b[0m`);
+  }
+
+  const { schemaVersion: _, ...rest } = config;
+  await writeFileAtomic(CONFIG_FILE, JSON.stringify({ schemaVersion: CONFIG_VERSION, ...rest }, null, 2), await configFileMode());
+}
+
+// Read-modify-write the user config under a lock, so concurrent cr processes
+// (e.g. several `cr auth` calls in a script) can't drop each other's changes.
+// With validate: false, fn gets a config that may fail the schema and must
+// check its result itself; this is how `cr config set` repairs a broken file.
+export async function updateConfig<T>(
+  fn: (config: Config) => T | Promise<T>,
+  options: { validate?: boolean } = {}
+): Promise<T> {
+  return withFileLock(CONFIG_FILE, async () => {
+    const config = await loadUserConfig(options);
+    const result = await fn(config);
+    await saveConfig(config);
+    return result;
+  });
 }
 
 // Check if a target matches a glob pattern (simple prefix* matching)
-function matchesGlob(target: string, pattern: string): boolean {
+export function matchesGlob(target: string, pattern: string): boolean {
   if (pattern.endsWith("*")) {
     const prefix = pattern.slice(0, -1);
     return target.startsWith(prefix);
@@ -101,14 +329,20 @@ function matchesGlob(target: string, pattern: string): boolean {
   return target === pattern;
 }
 
-// Get auth for a target, trying progressively shorter prefixes
+// The auth pattern matching a target, with its raw (unresolved) values
+export interface AuthMatch {
+  pattern: string;
+  values: Record<string, string>;
+}
+
+// Find auth for a target, trying progressively shorter prefixes
 // e.g., for "claude.aws.sonnet", tries:
 //   1. auth["claude.aws.sonnet*"]
 //   2. auth["claude.aws*"]
 //   3. auth["claude*"]
-export async function getAuth(target: string): Promise<Record<string, string>> {
+export async function findAuth(target: string): Promise<AuthMatch | null> {
   const config = await loadConfig();
-  if (!config.auth) return {};
+  if (!config.auth) return null;
 
   // Try exact match first, then progressively shorter prefixes
   const parts = target.split(".");
@@ -119,12 +353,89 @@ export async function getAuth(target: string): Promise<Record<string, string>> {
     // Check all auth patterns for matches
     for (const [pattern, secrets] of Object.entries(config.auth)) {
       if (matchesGlob(prefix, pattern) || matchesGlob(target, pattern)) {
-        return secrets;
+        return { pattern, values: secrets };
       }
     }
   }
 
-  return {};
+  return null;
+}
+
+// Get auth for a target without resolving secret references. Use this to
+// check which vars are configured without running password-manager commands.
+export async function getAuthRefs(target: string): Promise<Record<string, string>> {
+  return (await findAuth(target))?.values || {};
+}
+
+function isTrustedProject(project: string, userConfig: Config): boolean {
+  return (userConfig.trustedProjects || []).some((dir) => resolve(expandHome(dir)) === dirname(project));
+}
+
+// Settings a project config sets for a target that decide where its requests,
+// and so the saved keys, go: env and auth values, args, the proxy and a seed
+// for the config home
+async function projectOverrides(target: string, pattern: string, project: string): Promise<string[]> {
+  const config = await readConfigFile(project);
+  const changes = Object.keys(config?.auth?.[pattern] || {}).map((key) => `auth["${pattern}"].${key}`);
+
+  const [scaffold, ...rest] = target.split(".");
+  const chain = isScaffold(scaffold!) && rest.length > 0 ? await getVariantChain(scaffold, rest.join(".")) : undefined;
+  for (const layer of chain || []) {
+    if (layer.file !== project) continue;
+    const { env, defaultArgs, proxy, configHome } = layer.variant;
+    changes.push(...Object.keys(env || {}).map((key) => `env.${key}`));
+    if (defaultArgs) changes.push("defaultArgs");
+    if (proxy) changes.push("proxy");
+    if (typeof configHome === "object" && configHome.seed) changes.push("configHome.seed");
+  }
+  return [...new Set(changes)];
+}
+
+// Get auth for a target with env:/file:/cmd: references resolved
+export async function getAuth(target: string): Promise<Record<string, string>> {
+  const match = await findAuth(target);
+  if (!match) return {};
+
+  // A checked-in project config must not be able to run commands
+  const userConfig = await loadUserConfig();
+  const userAuth = userConfig.auth?.[match.pattern] || {};
+
+  // ...or send the user's keys somewhere else
+  const project = await findProjectConfig();
+  const trusted = !project || isTrustedProject(project, userConfig);
+  if (project && Object.keys(userAuth).length > 0 && !trusted) {
+    const changes = await projectOverrides(target, match.pattern, project);
+    if (changes.length > 0) {
+      throw new Error(
+        `${project} changes ${changes.join(", ")} of ${target}, which uses keys saved in ${CONFIG_FILE}; ` +
+          `if you trust it, add "${dirname(project)}" to trustedProjects there`
+      );
+    }
+  }
+
+  const resolved: Record<string, string> = {};
+  for (const [envVar, value] of Object.entries(match.values)) {
+    if (isCommandRef(value) && userAuth[envVar] !== value) {
+      throw new Error(
+        `${envVar} for ${target}: cmd: references are only allowed in ${CONFIG_FILE}`
+      );
+    }
+    // env: and file: read local secrets, which only the user may hand out
+    if (isSecretRef(value) && userAuth[envVar] !== value && !trusted) {
+      throw new Error(
+        `${envVar} for ${target}: env: and file: references are only allowed in ${CONFIG_FILE} and trusted projects; ` +
+          `if you trust ${project}, add "${dirname(project!)}" to trustedProjects there`
+      );
+    }
+
+    try {
+      resolved[envVar] = await resolveSecret(value);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`could not resolve ${envVar} for ${target} (${value}): ${message}`);
+    }
+  }
+  return resolved;
 }
 
 // Save auth for a target with glob pattern
@@ -133,14 +444,13 @@ export async function saveAuth(
   envVar: string,
   value: string
 ): Promise<void> {
-  const config = await loadConfig();
-  if (!config.auth) config.auth = {};
-
-  const authKey = `${target}*`;
-  if (!config.auth[authKey]) config.auth[authKey] = {};
-  config.auth[authKey][envVar] = value;
+  await updateConfig((config) => {
+    if (!config.auth) config.auth = {};
 
-  await saveConfig(config);
+    const authKey = `${target}*`;
+    if (!config.auth[authKey]) config.auth[authKey] = {};
+    config.auth[authKey][envVar] = value;
+  });
 }
 
 // Get a builtin variant
@@ -149,46 +459,144 @@ function getBuiltinVariant(scaffold: Scaffold, variantName: string): BuiltinVari
   return scaffoldVariants?.[variantName];
 }
 
-// Resolve a variant (handles extends for user variants)
-export async function getVariant(
+function getBuiltinVariantByFullName(fullName: string): BuiltinVariant | undefined {
+  const [scaffold, ...parts] = fullName.split(".");
+  return getBuiltinVariant(scaffold as Scaffold, parts.join("."));
+}
+
+// One level of an extends chain
+export interface VariantLayer {
+  name: string; // full name, e.g. "claude.aws.sonnet"
+  source: "builtin" | "user";
+  variant: UserVariant;
+  file?: string; // config file defining a user variant
+}
+
+// Walk the extends chain of a variant, returning its layers base first.
+// `stack` holds the user variants already visited, innermost last.
+function resolveVariantChain(
+  fullName: string,
+  config: Config,
+  stack: string[] = []
+): VariantLayer[] | undefined {
+  const userVariant = config.variants?.[fullName];
+
+  // A user variant that extends its own name builds on the builtin of that name
+  const isSelfExtend = stack[stack.length - 1] === fullName;
+
+  if (userVariant && !isSelfExtend) {
+    if (stack.includes(fullName)) {
+      const cycle = [...stack.slice(stack.indexOf(fullName)), fullName];
+      throw new Error(`variant extends cycle: ${cycle.join(" -> ")}`);
+    }
+
+    const layer: VariantLayer = { name: fullName, source: "user", variant: userVariant };
+    if (!userVariant.extends) return [layer];
+
+    const base = resolveVariantChain(userVariant.extends, config, [...stack, fullName]);
+    if (!base) {
+      throw new Error(`variant ${fullName} extends unknown variant ${userVariant.extends}`);
+    }
+    return [...base, layer];
+  }
+
+  const builtin = getBuiltinVariantByFullName(fullName);
+  return builtin ? [{ name: fullName, source: "builtin", variant: builtin }] : undefined;
+}
+
+export async function getVariantChain(
   scaffold: Scaffold,
   variantName: string
-): Promise<BuiltinVariant | undefined> {
-  const config = await loadConfig();
-  const fullName = `${scaffold}.${variantName}`;
+): Promise<VariantLayer[] | undefined> {
+  const configLayers = await loadConfigLayers();
+  const config = configLayers.reduce<Config>((merged, layer) => mergeConfigs(merged, layer.config), {});
+  const chain = resolveVariantChain(`${scaffold}.${variantName}`, config);
+
+  // The highest-priority file defining a variant is the one that applies
+  for (const layer of chain || []) {
+    if (layer.source !== "user") continue;
+    layer.file = configLayers.findLast((l) => l.config.variants?.[layer.name])?.path;
+  }
+  return chain;
+}
 
-  // Check for user variant first
-  const userVariant = config.variants?.[fullName];
-  if (userVariant) {
-    // If it extends another variant, merge them
-    if (userVariant.extends) {
-      const [baseScaffold, ...baseParts] = userVariant.extends.split(".");
-      const baseVariantName = baseParts.join(".");
-      const baseVariant = getBuiltinVariant(baseScaffold as Scaffold, baseVariantName);
-
-      if (baseVariant) {
-        return {
-          name: variantName,
-          description: userVariant.description || baseVariant.description,
-          env: { ...baseVariant.env, ...userVariant.env },
-          defaultArgs: userVariant.defaultArgs || baseVariant.defaultArgs,
-          requiredEnvVars: userVariant.requiredEnvVars || baseVariant.requiredEnvVars,
-        };
+function mergeArgs<T>(
+  base: T[] | undefined,
+  own: T[] | undefined,
+  strategy: UserVariant["argsMerge"] = "replace"
+): T[] | undefined {
+  if (!own) return base;
+  if (strategy === "append") return [...(base || []), ...own];
+  if (strategy === "prepend") return [...own, ...(base || [])];
+  return own;
+}
+
+function layerSource(layer: VariantLayer, depth: number): ValueSource {
+  return layer.source === "builtin"
+    ? { kind: "builtin", variant: layer.name }
+    : { kind: "user", variant: layer.name, file: layer.file, depth };
+}
+
+// Merge an extends chain (base first) into a single variant. When `trace` is
+// given, it records every env value and default arg with the layer it came from.
+export function mergeVariantLayers(
+  variantName: string,
+  layers: VariantLayer[],
+  trace?: VariantTrace
+): BuiltinVariant {
+  let merged: BuiltinVariant = { name: variantName, description: "", env: {} };
+  let tracedArgs: TracedValue[] | undefined;
+
+  for (const [i, layer] of layers.entries()) {
+    const { variant } = layer;
+    const env = { ...merged.env };
+    for (const key of variant.unset || []) delete env[key];
+    Object.assign(env, variant.env);
+
+    if (trace) {
+      const source = layerSource(layer, layers.length - 1 - i);
+      for (const key of variant.unset || []) {
+        if (trace.env[key]) trace.env[key].push({ value: null, source });
+      }
+      for (const [key, value] of Object.entries(variant.env || {})) {
+        (trace.env[key] ||= []).push({ value, source });
       }
+      const own = variant.defaultArgs?.map((value) => ({ value, source }));
+      tracedArgs = mergeArgs(tracedArgs, own, variant.argsMerge);
     }
 
-    // User variant without extends
-    return {
-      name: variantName,
-      description: userVariant.description || fullName,
-      env: userVariant.env || {},
-      defaultArgs: userVariant.defaultArgs,
-      requiredEnvVars: userVariant.requiredEnvVars,
+    merged = {
+      ...merged,
+      description: variant.description || merged.description,
+      env,
+      defaultArgs: mergeArgs(merged.defaultArgs, variant.defaultArgs, variant.argsMerge),
+      requiredEnvVars: variant.requiredEnvVars || merged.requiredEnvVars,
+      proxy: variant.proxy || merged.proxy,
+      provider: variant.provider || merged.provider,
+      configHome: variant.configHome ?? merged.configHome,
     };
   }
 
-  // Fall back to builtin
-  return getBuiltinVariant(scaffold, variantName);
+  if (trace) trace.args = tracedArgs || [];
+
+  merged.description ||= layers[layers.length - 1]!.name;
+  return merged;
+}
+
+// Resolve a variant (handles extends chains through user and builtin variants)
+export async function getVariant(
+  scaffold: Scaffold,
+  variantName: string
+): Promise<BuiltinVariant | undefined> {
+  const layers = await getVariantChain(scaffold, variantName);
+  if (!layers) return undefined;
+
+  // Builtins are returned as-is
+  if (layers.length === 1 && layers[0]!.source === "builtin") {
+    return getBuiltinVariant(scaffold, variantName);
+  }
+
+  return mergeVariantLayers(variantName, layers);
 }
 
 // Get all variants for a scaffold (builtins + user-defined)
@@ -225,22 +633,19 @@ export async function saveVariant(
   fullName: string,
   variant: UserVariant
 ): Promise<void> {
-  const config = await loadConfig();
-  if (!config.variants) config.variants = {};
-  config.variants[fullName] = variant;
-  await saveConfig(config);
+  await updateConfig((config) => {
+    if (!config.variants) config.variants = {};
+    config.variants[fullName] = variant;
+  });
 }
 
 // Delete a user variant
 export async function deleteVariant(fullName: string): Promise<boolean> {
-  const config = await loadConfig();
-
-  if (config.variants?.[fullName]) {
+  return updateConfig((config) => {
+    if (!config.variants?.[fullName]) return false;
     delete config.variants[fullName];
-    await saveConfig(config);
     return true;
-  }
-  return false;
+  });
 }
 
 // Legacy: get secrets for a variant (now uses getAuth)
@@ -261,39 +666,93 @@ export async function saveSecret(
   return saveAuth(`${scaffold}.${variantName}`, envVar, value);
 }
 
-// Ensure opencode config directories exist
-export async function ensureOpencodeConfig(variant: "vanilla" | "omoc"): Promise<string> {
-  const dir = variant === "omoc" ? OPENCODE_OMOC_DIR : OPENCODE_VANILLA_DIR;
+// Directory for a variant's isolated config home. It must stay inside
+// CONFIG_DIR: `cr reset` deletes it, and a project config can set subdir.
+export function configHomeDir(scaffold: Scaffold, variant: string, home: ConfigHome | true): string {
+  const subdir = (home !== true && home.subdir) || `${scaffold}-${variant}`;
+  const dir = resolve(CONFIG_DIR, subdir);
+  if (!dir.startsWith(CONFIG_DIR + sep)) {
+    throw new Error(`config home of ${scaffold}.${variant} must be inside ${CONFIG_DIR}, not ${subdir}`);
+  }
+  return dir;
+}
+
+// Write opencode's own config into a fresh XDG_CONFIG_HOME
+async function seedOpencodeConfig(dir: string, omoc: boolean): Promise<void> {
   const opencodeDir = join(dir, "opencode");
+  const configPath = join(opencodeDir, "opencode.json");
+  await mkdir(opencodeDir, { recursive: true });
 
+  // A seed template may already have provided one
   try {
-    await access(opencodeDir);
+    await access(configPath);
+    return;
   } catch {
-    await mkdir(opencodeDir, { recursive: true });
-
-    // Create minimal config
-    const configPath = join(opencodeDir, "opencode.json");
-    const config: Record<string, unknown> = {
-      "$schema": "https://opencode.ai/config.json",
-      theme: "opencode",
-      plugin: variant === "omoc" ? ["oh-my-opencode"] : [],
-      autoupdate: false,
-    };
+    // create it below
+  }
 
-    await writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
+  // Create minimal config
+  const config: Record<string, unknown> = {
+    "$schema": "https://opencode.ai/config.json",
+    theme: "opencode",
+    plugin: omoc ? ["oh-my-opencode"] : [],
+    autoupdate: false,
+  };
 
-    // If omoc, copy node_modules from user's opencode config if it exists
-    if (variant === "omoc") {
-      const userOpencodeDir = join(homedir(), ".config", "opencode");
-      const userNodeModules = join(userOpencodeDir, "node_modules");
+  await writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
 
-      try {
-        await access(userNodeModules);
-        await cp(userNodeModules, join(opencodeDir, "node_modules"), { recursive: true });
-      } catch {
-        // node_modules doesn't exist, user needs to install oh-my-opencode
-      }
+  // If omoc, copy node_modules from user's opencode config if it exists
+  if (omoc) {
+    const userOpencodeDir = join(homedir(), ".config", "opencode");
+    const userNodeModules = join(userOpencodeDir, "node_modules");
+
+    try {
+      await access(userNodeModules);
+      await cp(userNodeModules, join(opencodeDir, "node_modules"), { recursive: true });
+    } catch {
+      // node_modules doesn't exist, user needs to install oh-my-opencode
+    }
+  }
+}
+
+// Ensure a variant's config home exists, seeding it on first use. `omoc` is
+// set for variants built on opencode.omoc, which get the plugin.
+export async function ensureConfigHome(
+  scaffold: Scaffold,
+  variant: string,
+  home: ConfigHome | true,
+  omoc = false
+): Promise<string> {
+  const dir = configHomeDir(scaffold, variant, home);
+
+  try {
+    await access(dir);
+    return dir;
+  } catch {
+    // create it below
+  }
+
+  // Seed a temp dir and move it into place, so a failed seed doesn't leave an
+  // empty home behind that would never be seeded again
+  const temp = `${dir}.${process.pid}.tmp`;
+  await rm(temp, { recursive: true, force: true });
+  await mkdir(temp, { recursive: true });
+  try {
+    if (home !== true && home.seed) {
+      await cp(expandHome(home.seed), temp, { recursive: true });
+    }
+    if (scaffold === "opencode") {
+      await seedOpencodeConfig(temp, omoc);
     }
+    await rename(temp, dir);
+  } catch (err) {
+    await rm(temp, { recursive: true, force: true });
+    // Another cr process created it first
+    const created = await access(dir).then(
+      () => true,
+      () => false
+    );
+    if (!created) throw err;
   }
 
   return dir;
@@ -0,0 +1,319 @@
+import { join } from "node:path";
+import { access } from "node:fs/promises";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import {
+  CONFIG_FILE,
+  OPENCODE_OMOC_DIR,
+  findProjectConfig,
+  findPresetFiles,
+  checkConfigFile,
+  loadConfig,
+  findAuth,
+  matchesGlob,
+} from "./config.ts";
+import { parseTarget, resolveTarget } from "./resolve.ts";
+import { resolveSecret, isCommandRef } from "./secrets.ts";
+import { builtinVariants, SCAFFOLDS } from "./presets.ts";
+import type { ResolvedTarget, Scaffold } from "./types.ts";
+
+const execFileAsync = promisify(execFile);
+
+export type CheckStatus = "ok" | "warn" | "fail";
+
+const SECTIONS = ["scaffolds", "config", "variants", "auth", "opencode", "environment"];
+
+export interface Check {
+  section: string;
+  name: string;
+  status: CheckStatus;
+  message: string;
+  fix?: string;
+}
+
+const INSTALL_COMMANDS: Record<Scaffold, string> = {
+  claude: "npm install -g @anthropic-ai/claude-code",
+  opencode: "npm install -g opencode-ai",
+  codex: "npm install -g @openai/codex",
+  gemini: "npm install -g @google/gemini-cli",
+};
+
+// Where seedOpencodeConfig expects the plugin to be installed
+const OMOC_PLUGIN_DIR = join(OPENCODE_OMOC_DIR, "opencode", "node_modules", "oh-my-opencode");
+
+// Providers that take precedence over ANTHROPIC_BASE_URL when set
+const CLAUDE_PROVIDER_FLAGS = ["CLAUDE_CODE_USE_BEDROCK", "CLAUDE_CODE_USE_VERTEX", "CLAUDE_CODE_USE_FOUNDRY"];
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function checkBinary(scaffold: Scaffold): Promise<Check> {
+  const base = { section: "scaffolds", name: scaffold };
+  try {
+    const { stdout } = await execFileAsync(scaffold, ["--version"], { timeout: 10_000 });
+    const version = stdout.trim().split("\n")[0] || "unknown version";
+    return { ...base, status: "ok", message: version };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { ...base, status: "fail", message: "not found on PATH", fix: INSTALL_COMMANDS[scaffold] };
+    }
+    return {
+      ...base,
+      status: "warn",
+      message: `installed, but \`${scaffold} --version\` failed`,
+      fix: `run \`${scaffold} --version\` to see the error`,
+    };
+  }
+}
+
+async function checkConfig(path: string, preset = false): Promise<Check | null> {
+  if (!(await exists(path))) return null;
+  const base = { section: "config", name: path };
+
+  const issues = await checkConfigFile(path, { preset });
+  if (issues.length === 0) return { ...base, status: "ok", message: "valid" };
+
+  const first = issues[0]!;
+  const where = first.line ? `line ${first.line}: ` : "";
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+  return { ...base, status: "fail", message: `${where}${first.message}${more}`, fix: "cr config validate" };
+}
+
+// Every variant name coderouter knows, builtins first
+async function allVariantNames(): Promise<string[]> {
+  const config = await loadConfig();
+  const names = new Set<string>(SCAFFOLDS);
+  for (const scaffold of SCAFFOLDS) {
+    for (const name of Object.keys(builtinVariants[scaffold] || {})) names.add(`${scaffold}.${name}`);
+  }
+  for (const name of Object.keys(config.variants || {})) names.add(name);
+  return [...names];
+}
+
+// Required vars without running cmd: references; env: and file: are cheap to verify
+async function missingRequired(target: ResolvedTarget, fullName: string): Promise<string[]> {
+  const refs = (await findAuth(fullName))?.values || {};
+  const missing: string[] = [];
+
+  for (const key of target.requiredEnvVars) {
+    if (process.env[key] || target.env[key]) continue;
+    const ref = refs[key];
+    if (!ref) {
+      missing.push(key);
+    } else if (!isCommandRef(ref)) {
+      try {
+        if (!(await resolveSecret(ref))) missing.push(key);
+      } catch (err) {
+        throw new Error(`${key} (${ref}): ${(err as Error).message}`);
+      }
+    }
+  }
+  return missing;
+}
+
+// Shell env that silently changes what a variant talks to
+async function checkConflicts(target: ResolvedTarget, fullName: string): Promise<Check[]> {
+  if (target.scaffold !== "claude") return [];
+
+  const refs = (await findAuth(fullName))?.values || {};
+  const injected = { ...refs, ...target.env };
+  const fromShell = (key: string) => process.env[key] !== undefined && injected[key] === undefined;
+  const checks: Check[] = [];
+  const base = { section: "environment", name: fullName };
+
+  if (injected.ANTHROPIC_AUTH_TOKEN !== undefined && fromShell("ANTHROPIC_API_KEY")) {
+    checks.push({
+      ...base,
+      status: "warn",
+      message: "ANTHROPIC_API_KEY from your shell is sent alongside the variant's ANTHROPIC_AUTH_TOKEN",
+      fix: `unset ANTHROPIC_API_KEY in your shell profile, or add "ANTHROPIC_API_KEY": "" to the env of ${fullName}`,
+    });
+  }
+
+  if (injected.ANTHROPIC_BASE_URL !== undefined) {
+    for (const flag of CLAUDE_PROVIDER_FLAGS.filter(fromShell)) {
+      checks.push({
+        ...base,
+        status: "warn",
+        message: `${flag} from your shell overrides the variant's ANTHROPIC_BASE_URL`,
+        fix: `unset ${flag} in your shell profile, or add "${flag}": "" to the env of ${fullName}`,
+      });
+    }
+  }
+
+  if (CLAUDE_PROVIDER_FLAGS.some((flag) => injected[flag]) && fromShell("ANTHROPIC_BASE_URL")) {
+    checks.push({
+      ...base,
+      status: "warn",
+      message: "ANTHROPIC_BASE_URL from your shell redirects a cloud provider variant",
+      fix: `unset ANTHROPIC_BASE_URL in your shell profile`,
+    });
+  }
+
+  return checks;
+}
+
+async function checkVariant(fullName: string, explicit: boolean): Promise<Check[]> {
+  const base = { section: "variants", name: fullName };
+  const parsed = parseTarget(fullName);
+  if (!parsed) {
+    return [{
+      ...base,
+      status: "fail",
+      message: "name does not start with a known scaffold",
+      fix: `rename it to start with one of: ${SCAFFOLDS.join(", ")}`,
+    }];
+  }
+
+  let target: ResolvedTarget | null;
+  try {
+    target = await resolveTarget(parsed.scaffold, parsed.variant, { dryRun: true });
+  } catch (err) {
+    return [{ ...base, status: "fail", message: (err as Error).message, fix: `fix the definition of ${fullName} in your config` }];
+  }
+  if (!target) {
+    return [{ ...base, status: "fail", message: "unknown variant", fix: "run cr list to see available variants" }];
+  }
+
+  let missing: string[];
+  try {
+    missing = await missingRequired(target, fullName);
+  } catch (err) {
+    return [{ ...base, status: "fail", message: `unusable auth: ${(err as Error).message}`, fix: `cr auth ${fullName}` }];
+  }
+
+  const userVariant = (await loadConfig()).variants?.[fullName];
+  const configured = explicit || userVariant !== undefined || (await findAuth(fullName)) !== null;
+  const conflicts = configured ? await checkConflicts(target, fullName) : [];
+
+  if (missing.length > 0) {
+    return [{
+      ...base,
+      // Unused builtins are expected to lack credentials
+      status: configured ? "fail" : "warn",
+      message: configured ? `missing ${missing.join(", ")}` : `not set up (needs ${missing.join(", ")})`,
+      fix: `cr auth ${fullName}`,
+    }, ...conflicts];
+  }
+
+  return [{ ...base, status: "ok", message: "ready" }, ...conflicts];
+}
+
+async function checkOrphanAuth(variants: string[]): Promise<Check[]> {
+  const config = await loadConfig();
+  const checks: Check[] = [];
+
+  for (const pattern of Object.keys(config.auth || {})) {
+    if (variants.some((name) => matchesGlob(name, pattern))) continue;
+    checks.push({
+      section: "auth",
+      name: pattern,
+      status: "warn",
+      message: "matches no variant; these credentials are never used",
+      fix: `remove "${pattern}" from auth in ${CONFIG_FILE}, or rename it to match a variant`,
+    });
+  }
+  return checks;
+}
+
+async function checkOmoc(): Promise<Check> {
+  const base = { section: "opencode", name: "opencode.omoc" };
+  if (await exists(OMOC_PLUGIN_DIR)) {
+    return { ...base, status: "ok", message: "oh-my-opencode plugin installed" };
+  }
+  return {
+    ...base,
+    status: "warn",
+    message: `oh-my-opencode is not installed in ${join(OPENCODE_OMOC_DIR, "opencode")}`,
+    fix: `cd ${join(OPENCODE_OMOC_DIR, "opencode")} && bun add oh-my-opencode`,
+  };
+}
+
+// Run every check, or only those relevant to one target
+export async function runChecks(input?: string): Promise<Check[]> {
+  const parsed = input ? parseTarget(input) : null;
+  if (input && !parsed) {
+    throw new Error(`unknown scaffold: ${input}`);
+  }
+
+  const checks: Check[] = [];
+  const scaffolds = parsed ? [parsed.scaffold] : SCAFFOLDS;
+  for (const scaffold of scaffolds) checks.push(await checkBinary(scaffold));
+
+  for (const path of await findPresetFiles()) {
+    const check = await checkConfig(path, true);
+    if (check) checks.push(check);
+  }
+  const projectFile = await findProjectConfig();
+  for (const path of [CONFIG_FILE, projectFile]) {
+    const check = path ? await checkConfig(path) : null;
+    if (check) checks.push(check);
+  }
+
+  // Everything below reads the config
+  if (checks.some((c) => c.section === "config" && c.status === "fail")) return checks;
+
+  const variants = await allVariantNames();
+  const toCheck = input ? [input] : variants;
+  for (const name of toCheck) checks.push(...(await checkVariant(name, input !== undefined)));
+
+  checks.push(...(await checkOrphanAuth(variants)));
+
+  if (!parsed || (parsed.scaffold === "opencode" && parsed.variant === "omoc")) {
+    checks.push(await checkOmoc());
+  }
+
+  // Variant checks emit environment checks too; group them for printing
+  return checks.sort((a, b) => SECTIONS.indexOf(a.section) - SECTIONS.indexOf(b.section));
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  ok: "\x1b[32m✓\x1b[0m",
+  warn: "\x1b[33m!\x1b[0m",
+  fail: "\x1b[31m✗\x1b[0m",
+};
+
+function printChecks(checks: Check[]): void {
+  let section = "";
+  for (const check of checks) {
+    if (check.section !== section) {
+      if (section) console.log();
+      section = check.section;
+      console.log(`\x1b[1m${section}\x1b[0m`);
+    }
+    console.log(`  ${STATUS_ICONS[check.status]} ${check.name}  \x1b[90m${check.message}\x1b[0m`);
+    if (check.fix && check.status !== "ok") {
+      console.log(`      fix: \x1b[36m${check.fix}\x1b[0m`);
+    }
+  }
+}
+
+// `cr doctor [target] [--json]`; exits 1 if any check fails
+export async function runDoctor(args: string[]): Promise<void> {
+  const json = args.includes("--json");
+  const input = args.find((a) => a !== "--json");
+
+  const checks = await runChecks(input);
+  const failures = checks.filter((c) => c.status === "fail").length;
+  const warnings = checks.filter((c) => c.status === "warn").length;
+
+  if (json) {
+    console.log(JSON.stringify({ ok: failures === 0, checks }, null, 2));
+  } else {
+    printChecks(checks);
+    console.log();
+    console.log(
+      failures > 0
+        ? `\x1b[31m${failures} problem${failures === 1 ? "" : "s"}\x1b[0m, ${warnings} warning${warnings === 1 ? "" : "s"}`
+        : `\x1b[32mno problems\x1b[0m, ${warnings} warning${warnings === 1 ? "" : "s"}`
+    );
+  }
+
+  if (failures > 0) process.exit(1);
+}
@@ -0,0 +1,15 @@
+import { describe, expect, test } from "bun:test";
+import { formatEnv } from "./env.ts";
+
+describe("formatEnv", () => {
+  const env = { PLAIN: "https://api.z.ai/api", SPACED: 'say "hi" $HOME' };
+
+  test("dotenv quotes and escapes", () => {
+    expect(formatEnv(env, "dotenv")).toBe('PLAIN=https://api.z.ai/api\nSPACED="say \\"hi\\" \\$HOME"');
+  });
+
+  test("docker writes values as they are", () => {
+    expect(formatEnv(env, "docker")).toBe('PLAIN=https://api.z.ai/api\nSPACED=say "hi" $HOME');
+    expect(() => formatEnv({ KEY: "a\nb" }, "docker")).toThrow(/several lines/);
+  });
+});
@@ -0,0 +1,129 @@
+import { parseTarget, resolveTarget, checkRequiredEnvVars, DRY_RUN_PROXY_URL } from "./resolve.ts";
+import { injectedEnv, redact } from "./runner.ts";
+import { SCAFFOLDS } from "./presets.ts";
+
+export const ENV_FORMATS = ["bash", "zsh", "fish", "powershell", "dotenv", "docker", "json"] as const;
+export type EnvFormat = (typeof ENV_FORMATS)[number];
+
+function isEnvFormat(value: string): value is EnvFormat {
+  return (ENV_FORMATS as readonly string[]).includes(value);
+}
+
+// POSIX single quotes: nothing is special except the quote itself
+function posixQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// fish single quotes only treat \ and ' specially
+function fishQuote(value: string): string {
+  return `'${value.replace(/[\\']/g, "\\$&")}'`;
+}
+
+// PowerShell single quotes are literal; a quote is doubled
+function powershellQuote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Double quotes with escapes, as read by dotenv libraries and most IDEs
+function dotenvQuote(value: string): string {
+  if (/^[\w@%+=:,./-]*$/.test(value)) return value;
+  return `"${value.replace(/[\\"$]/g, "\\$&").replace(/\n/g, "\\n")}"`;
+}
+
+export function formatEnv(env: Record<string, string>, format: EnvFormat): string {
+  const entries = Object.entries(env);
+
+  switch (format) {
+    case "bash":
+    case "zsh":
+      return entries.map(([key, value]) => `export ${key}=${posixQuote(value)}`).join("\n");
+    case "fish":
+      return entries.map(([key, value]) => `set -gx ${key} ${fishQuote(value)}`).join("\n");
+    case "powershell":
+      return entries.map(([key, value]) => `$env:${key} = ${powershellQuote(value)}`).join("\n");
+    case "dotenv":
+      return entries.map(([key, value]) => `${key}=${dotenvQuote(value)}`).join("\n");
+    case "docker":
+      // docker --env-file takes everything after = literally, quotes included
+      return entries
+        .map(([key, value]) => {
+          if (value.includes("\n")) throw new Error(`${key} spans several lines, which docker --env-file can't hold`);
+          return `${key}=${value}`;
+        })
+        .join("\n");
+    case "json":
+      return JSON.stringify(env, null, 2);
+  }
+}
+
+function parseEnvArgs(args: string[]): { input?: string; format: string; redacted: boolean } {
+  let input: string | undefined;
+  let format = "bash";
+  let redacted = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--format" || arg === "-f") {
+      format = args[++i] ?? "";
+    } else if (arg.startsWith("--format=")) {
+      format = arg.slice("--format=".length);
+    } else if (arg === "--redact") {
+      redacted = true;
+    } else if (!input) {
+      input = arg;
+    } else {
+      throw new Error(`unexpected argument: ${arg}`);
+    }
+  }
+
+  return { input, format, redacted };
+}
+
+// `cr env <target> [--format bash|zsh|fish|powershell|dotenv|docker|json] [--redact]`
+export async function runEnv(args: string[]): Promise<void> {
+  const { input, format, redacted } = parseEnvArgs(args);
+
+  if (!input) {
+    console.error(`usage: cr env <scaffold>[.variant] [--format ${ENV_FORMATS.join("|")}] [--redact]`);
+    process.exit(1);
+  }
+
+  if (!isEnvFormat(format)) {
+    console.error(`\x1b[31munknown format:\x1b[0m ${format}`);
+    console.error("available formats: " + ENV_FORMATS.join(", "));
+    process.exit(1);
+  }
+
+  const parsed = parseTarget(input);
+  if (!parsed) {
+    console.error(`\x1b[31munknown scaffold:\x1b[0m ${input}`);
+    console.error("available scaffolds: " + SCAFFOLDS.join(", "));
+    process.exit(1);
+  }
+
+  // The env outlives this process, so no proxy is started for it
+  const target = await resolveTarget(parsed.scaffold, parsed.variant, { skipProxy: true });
+  if (!target) {
+    console.error(`\x1b[31munknown variant:\x1b[0m ${input}`);
+    console.error(`run \x1b[36mcr list\x1b[0m to see available variants`);
+    process.exit(1);
+  }
+
+  // Warnings go to stderr so `eval "$(cr env ...)"` stays clean
+  if (target.env.ANTHROPIC_BASE_URL === DRY_RUN_PROXY_URL) {
+    console.error(`\x1b[33mwarning:\x1b[0m ${input} talks to a local proxy; keep \x1b[36mcr proxy ${input}\x1b[0m running`);
+  }
+
+  const missing = await checkRequiredEnvVars(target);
+  if (missing.length > 0) {
+    console.error(`\x1b[33mwarning:\x1b[0m ${input} is missing ${missing.join(", ")} (run: cr auth ${input})`);
+  }
+
+  let env = await injectedEnv(target);
+  if (redacted) {
+    env = Object.fromEntries(Object.entries(env).map(([key, value]) => [key, value && redact(key, value)]));
+  }
+
+  const output = formatEnv(env, format);
+  if (output) console.log(output);
+}
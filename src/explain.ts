@@ -0,0 +1,294 @@
+import { findAuth } from "./config.ts";
+import { parseTarget, resolveTarget } from "./resolve.ts";
+import { PASSTHROUGH_VARS, redact } from "./runner.ts";
+import { SCAFFOLDS } from "./presets.ts";
+import { applyRunOverrides, type RunOverrides } from "./flags.ts";
+import { shortPath } from "./history.ts";
+import { getRoute } from "./routes.ts";
+import { selectRule, type RuleResult } from "./rules.ts";
+import type { RouteConfig, Scaffold, TracedValue, ValueSource, VariantTrace } from "./types.ts";
+
+export interface ExplainedEnvVar {
+  key: string;
+  value: string;
+  source: ValueSource;
+  // The value as written, when it was interpolated
+  template?: string;
+  // Values this one won over, lowest priority first
+  overridden: TracedValue[];
+}
+
+export interface Explanation {
+  target: string;
+  scaffold: Scaffold;
+  variant: string | null;
+  command: string;
+  env: ExplainedEnvVar[];
+  required: Array<{ key: string; source: ValueSource | null }>;
+  args: TracedValue[];
+  // For `cr run` / `cr .`: the rules tried, ending with the one that picked the target
+  rules?: RuleResult[];
+}
+
+// Resolve a target without side effects and record where every value came from
+export async function explainTarget(
+  scaffold: Scaffold,
+  variant: string | null,
+  args: string[],
+  overrides?: RunOverrides
+): Promise<Explanation | null> {
+  const trace: VariantTrace = { env: {}, args: [] };
+  const target = await resolveTarget(scaffold, variant, { dryRun: true, trace, model: overrides?.model });
+  if (!target) return null;
+  if (overrides) applyRunOverrides(target, overrides, trace);
+
+  const fullTarget = variant ? `${scaffold}.${variant}` : scaffold;
+  const authMatch = await findAuth(fullTarget);
+  const auth = authMatch?.values || {};
+  const authSource: ValueSource = { kind: "auth", pattern: authMatch?.pattern ?? "" };
+
+  const fromOutside = (key: string): TracedValue[] => {
+    const values: TracedValue[] = [];
+    const envValue = process.env[key];
+    if (envValue !== undefined) values.push({ value: envValue, source: { kind: "process-env" } });
+    if (auth[key] !== undefined) values.push({ value: auth[key]!, source: authSource });
+    return values;
+  };
+
+  // Same precedence as run(): process env < saved auth < variant env
+  const keys = new Set([
+    ...Object.keys(trace.env),
+    ...Object.keys(auth),
+    ...PASSTHROUGH_VARS[scaffold].filter((key) => process.env[key] !== undefined),
+  ]);
+
+  const env: ExplainedEnvVar[] = [];
+  for (const key of keys) {
+    if (target.unsetEnv?.includes(key)) continue;
+    const outside = fromOutside(key);
+    const variantValues = trace.env[key] || [];
+    const last = variantValues[variantValues.length - 1];
+
+    // An unset variant value falls back to auth or the process env
+    const history = [...outside, ...variantValues];
+    const effective = last && last.value !== null ? last : outside[outside.length - 1];
+    if (!effective) continue;
+
+    env.push({
+      key,
+      value: effective.value!,
+      source: effective.source,
+      template: effective.template,
+      overridden: history.filter((v) => v !== effective),
+    });
+  }
+
+  const required = target.requiredEnvVars.map((key) => {
+    const found = env.find((e) => e.key === key);
+    return { key, source: found ? found.source : null };
+  });
+
+  return {
+    target: fullTarget,
+    scaffold,
+    variant,
+    command: target.command,
+    env,
+    required,
+    args: [
+      ...trace.args,
+      ...args.map((value) => ({ value, source: { kind: "command-line" } as ValueSource })),
+    ],
+  };
+}
+
+export function describeSource(source: ValueSource): string {
+  switch (source.kind) {
+    case "builtin":
+      return `builtin ${source.variant}`;
+    case "user": {
+      const level = source.depth > 0 ? `, extends level ${source.depth}` : "";
+      const file = source.file ? ` in ${shortPath(source.file)}` : "";
+      return `${source.variant}${file}${level}`;
+    }
+    case "auth":
+      return `auth "${source.pattern}"`;
+    case "process-env":
+      return "your environment";
+    case "coderouter":
+      return `coderouter (${source.reason})`;
+    case "command-line":
+      return "command line";
+  }
+}
+
+function display(key: string, value: string | null): string {
+  if (value === null) return "(unset)";
+  if (value === "") return '""';
+  return redact(key, value);
+}
+
+function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+// Each rule tried for `cr run` and why it did or didn't match
+export function printRules(results: RuleResult[], log: (line: string) => void = console.log): void {
+  log("\x1b[36mrules:\x1b[0m");
+  if (results.length === 0) log("  none in config; add some under \"rules\" in config.json");
+  for (const result of results) {
+    const mark = result.matched ? "\x1b[32m✓\x1b[0m" : "\x1b[31m✗\x1b[0m";
+    log(`  ${mark} ${result.name} -> ${result.target}  \x1b[90m${shortPath(result.file)}\x1b[0m`);
+    if (result.checks.length === 0) log("      \x1b[90malways matches\x1b[0m");
+    for (const check of result.checks) {
+      log(`      \x1b[90m${check.matched ? "✓" : "✗"} ${check.detail}\x1b[0m`);
+    }
+  }
+  if (results.length > 0 && !results.at(-1)!.matched) log("  no rule matches");
+}
+
+export function printExplanation(e: Explanation): void {
+  console.log(`\x1b[1m${e.target}\x1b[0m  \x1b[90m(not executing)\x1b[0m`);
+  console.log();
+
+  if (e.rules) {
+    printRules(e.rules);
+    console.log();
+  }
+
+  if (e.env.length > 0) {
+    console.log("\x1b[36menv:\x1b[0m");
+    const width = Math.max(...e.env.map((v) => v.key.length + display(v.key, v.value).length + 1));
+    for (const v of e.env) {
+      const assignment = `${v.key}=${display(v.key, v.value)}`;
+      console.log(`  ${assignment.padEnd(width)}  \x1b[90m${describeSource(v.source)}\x1b[0m`);
+      if (v.template) console.log(`  \x1b[90m  from ${v.template}\x1b[0m`);
+      for (const o of [...v.overridden].reverse()) {
+        console.log(`  \x1b[90m  overrides ${display(v.key, o.value)} from ${describeSource(o.source)}\x1b[0m`);
+      }
+    }
+    console.log();
+  }
+
+  if (e.required.length > 0) {
+    console.log("\x1b[36mrequired:\x1b[0m");
+    for (const r of e.required) {
+      if (r.source) {
+        console.log(`  \x1b[32m✓\x1b[0m ${r.key}  \x1b[90m${describeSource(r.source)}\x1b[0m`);
+      } else {
+        console.log(`  \x1b[31m✗\x1b[0m ${r.key} (not set, run: cr auth ${e.target})`);
+      }
+    }
+    console.log();
+  }
+
+  if (e.args.length > 0) {
+    console.log("\x1b[36margs:\x1b[0m");
+    for (const a of e.args) {
+      console.log(`  ${shellQuote(a.value ?? "")}  \x1b[90m${describeSource(a.source)}\x1b[0m`);
+    }
+    console.log();
+  }
+
+  console.log("\x1b[36mcommand:\x1b[0m");
+  console.log(`  ${[e.command, ...e.args.map((a) => shellQuote(a.value ?? ""))].join(" ")}`);
+}
+
+export interface RouteHopExplanation {
+  hop: string;
+  // null when the hop isn't a known variant
+  explanation: Explanation | null;
+}
+
+// What every hop of a route would run, for `cr explain <route>` and `cr <route> --cr-dry-run`
+export async function explainRoute(route: RouteConfig, args: string[], overrides?: RunOverrides): Promise<RouteHopExplanation[]> {
+  const hops: RouteHopExplanation[] = [];
+  for (const hop of route.variants) {
+    const parsed = parseTarget(hop);
+    const explanation = parsed ? await explainTarget(parsed.scaffold, parsed.variant, args, overrides) : null;
+    hops.push({ hop, explanation });
+  }
+  return hops;
+}
+
+export function printRouteExplanation(name: string, hops: RouteHopExplanation[]): void {
+  hops.forEach(({ hop, explanation }, i) => {
+    console.log(`\x1b[90mroute ${name}, hop ${i + 1}/${hops.length}\x1b[0m`);
+    if (explanation) printExplanation(explanation);
+    else console.log(`${hop} is not a known variant`);
+    console.log();
+  });
+}
+
+// Secrets never leave `cr explain`, not even in JSON
+function redactExplanation(e: Explanation): Explanation {
+  return {
+    ...e,
+    env: e.env.map((v) => ({
+      ...v,
+      value: v.value && redact(v.key, v.value),
+      overridden: v.overridden.map((o) => ({ ...o, value: o.value && redact(v.key, o.value) })),
+    })),
+  };
+}
+
+// `cr explain <target|.> [args...] [--json]` and `cr --dry-run <target|.> [args...]`
+export async function runExplain(args: string[]): Promise<void> {
+  const json = args.includes("--json");
+  const rest = args.filter((a) => a !== "--json");
+  let input = rest[0];
+  let rules: RuleResult[] | undefined;
+
+  if (!input) {
+    console.error("usage: cr explain <scaffold>[.variant]|<route>|. [args...] [--json]");
+    process.exit(1);
+  }
+
+  // `cr explain .` shows which rule picks the target, then the target
+  if (input === "." || input === "run") {
+    const { tried, match } = await selectRule(rest.slice(1));
+    rules = tried;
+    if (!match) {
+      printRules(tried);
+      process.exit(1);
+    }
+    input = match.target;
+  }
+
+  const route = parseTarget(input) ? undefined : await getRoute(input);
+  if (route) {
+    const hops = await explainRoute(route, rest.slice(1));
+    if (json) {
+      const redacted = hops.map(({ hop, explanation }) => ({ hop, explanation: explanation && redactExplanation(explanation) }));
+      console.log(JSON.stringify({ ...(rules ? { rules } : {}), route: input, hops: redacted }, null, 2));
+    } else {
+      if (rules) {
+        printRules(rules);
+        console.log();
+      }
+      printRouteExplanation(input, hops);
+    }
+    return;
+  }
+
+  const parsed = parseTarget(input);
+  if (!parsed) {
+    console.error(`\x1b[31munknown scaffold:\x1b[0m ${input}`);
+    console.error("available scaffolds: " + SCAFFOLDS.join(", "));
+    process.exit(1);
+  }
+
+  const explanation = await explainTarget(parsed.scaffold, parsed.variant, rest.slice(1));
+  if (!explanation) {
+    console.error(`\x1b[31munknown variant:\x1b[0m ${input}`);
+    console.error(`run \x1b[36mcr list\x1b[0m to see available variants`);
+    process.exit(1);
+  }
+  if (rules) explanation.rules = rules;
+
+  if (json) {
+    console.log(JSON.stringify(redactExplanation(explanation), null, 2));
+  } else {
+    printExplanation(explanation);
+  }
+}
@@ -0,0 +1,295 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { basename, join } from "node:path";
+import { mkdir, writeFile } from "node:fs/promises";
+import { CONFIG_DIR, getVariant, useConfigFile } from "./config.ts";
+import { parseTarget, resolveTarget, checkRequiredEnvVars } from "./resolve.ts";
+import { runTarget, redactArgs } from "./runner.ts";
+import { explainTarget, printExplanation } from "./explain.ts";
+import { parseRunFlags, applyRunOverrides, type RunOverrides } from "./flags.ts";
+import { formatDuration, shortPath } from "./history.ts";
+import { fileTimestamp } from "./files.ts";
+import { HEADLESS_ARGS } from "./presets.ts";
+import { mapPool } from "./pool.ts";
+import type { Scaffold } from "./types.ts";
+
+// `cr fanout a,b,c -- "prompt"` runs the same prompt on several variants at
+// once, each in its own git worktree and branch, so the results can be
+// compared with plain git afterwards.
+export const FANOUT_DIR = join(CONFIG_DIR, "fanout");
+
+const DEFAULT_CONCURRENCY = 4;
+
+const USAGE = `usage: cr fanout <variant,variant,...> [--concurrency N] [--base REF] [--json] [--cr-* options] -- "prompt"`;
+
+export interface FanoutRun {
+  target: string;
+  branch: string;
+  worktree: string;
+  log: string;
+  // null when the scaffold never started
+  exitCode: number | null;
+  durationMs: number;
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  error?: string;
+  // Set when the agent's changes couldn't be committed to the branch
+  uncommitted?: boolean;
+}
+
+interface FanoutJob {
+  target: string;
+  scaffold: Scaffold;
+  variant: string | null;
+  branch: string;
+  worktree: string;
+  log: string;
+}
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+    return stdout.trim();
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]}: ${stderr || (err as Error).message}`);
+  }
+}
+
+function log(message: string): void {
+  console.error(`\x1b[90m[cr]\x1b[0m ${message}`);
+}
+
+// Commit whatever the agent left in the worktree so the branch holds the
+// result. Returns false when there was something to commit and it failed.
+async function commitLeftovers(worktree: string, message: string): Promise<boolean> {
+  await git(worktree, ["add", "-A"]);
+  if (!(await git(worktree, ["status", "--porcelain"]))) return true;
+  try {
+    await git(worktree, ["commit", "--quiet", "--no-verify", "-m", message]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Files and lines changed since base, staged changes included
+async function diffStats(worktree: string, base: string): Promise<Pick<FanoutRun, "filesChanged" | "insertions" | "deletions">> {
+  const numstat = await git(worktree, ["diff", "--cached", "--numstat", base]);
+  const stats = { filesChanged: 0, insertions: 0, deletions: 0 };
+  for (const line of numstat.split("\n").filter(Boolean)) {
+    // Binary files show "-" for both counts
+    const [added, deleted] = line.split("\t");
+    stats.filesChanged++;
+    stats.insertions += Number(added) || 0;
+    stats.deletions += Number(deleted) || 0;
+  }
+  return stats;
+}
+
+async function runJob(job: FanoutJob, prompt: string, base: string, overrides: RunOverrides): Promise<FanoutRun> {
+  const run: FanoutRun = {
+    target: job.target,
+    branch: job.branch,
+    worktree: job.worktree,
+    log: job.log,
+    exitCode: null,
+    durationMs: 0,
+    filesChanged: 0,
+    insertions: 0,
+    deletions: 0,
+  };
+
+  try {
+    const target = await resolveTarget(job.scaffold, job.variant, { model: overrides.model });
+    if (!target) throw new Error(`unknown variant ${job.target}`);
+    applyRunOverrides(target, overrides);
+
+    const missing = await checkRequiredEnvVars(target);
+    if (missing.length > 0) throw new Error(`missing ${missing.join(", ")}; run cr auth ${job.target}`);
+
+    const args = HEADLESS_ARGS[job.scaffold](prompt);
+    const command = [target.command, ...redactArgs([...target.defaultArgs, ...args])].join(" ");
+    await writeFile(job.log, `# cr fanout ${job.target} in ${job.worktree}\n# ${command}\n\n`);
+
+    log(`${job.target} started`);
+    const started = Date.now();
+    const result = await runTarget(target, args, { cwd: job.worktree, logFile: job.log, quiet: true });
+    run.durationMs = Date.now() - started;
+    if (result.launched) run.exitCode = result.code;
+    else run.error = `failed to execute ${target.command}`;
+
+    run.uncommitted = !(await commitLeftovers(job.worktree, `cr fanout: ${job.target}\n\n${prompt}`)) || undefined;
+    Object.assign(run, await diffStats(job.worktree, base));
+    log(`${job.target} ${run.exitCode === null ? "failed" : `exited ${run.exitCode}`} after ${formatDuration(run.durationMs)}`);
+  } catch (err) {
+    run.error = (err as Error).message;
+    log(`${job.target} failed: ${run.error}`);
+  }
+  return run;
+}
+
+function printSummary(runs: FanoutRun[], runDir: string): void {
+  const rows = runs.map((run) => ({
+    target: run.target,
+    exit: run.exitCode === null ? "-" : String(run.exitCode),
+    time: run.exitCode === null ? "-" : formatDuration(run.durationMs),
+    files: run.exitCode === null ? "-" : String(run.filesChanged),
+    diff: run.exitCode === null ? "-" : `+${run.insertions} -${run.deletions}`,
+    branch: run.branch,
+    run,
+  }));
+  const header = { target: "TARGET", exit: "EXIT", time: "TIME", files: "FILES", diff: "DIFF", branch: "BRANCH" };
+  const columns = ["target", "exit", "time", "files", "diff"] as const;
+  const widths = Object.fromEntries(
+    columns.map((c) => [c, Math.max(header[c].length, ...rows.map((r) => r[c].length))])
+  ) as Record<(typeof columns)[number], number>;
+
+  console.log(`\x1b[1m${columns.map((c) => header[c].padEnd(widths[c])).join("  ")}  ${header.branch}\x1b[0m`);
+  for (const row of rows) {
+    const exit = row.exit.padEnd(widths.exit);
+    const colored = row.run.exitCode === 0 ? `\x1b[32m${exit}\x1b[0m` : `\x1b[31m${exit}\x1b[0m`;
+    console.log(
+      [
+        `\x1b[36m${row.target.padEnd(widths.target)}\x1b[0m`,
+        colored,
+        row.time.padEnd(widths.time),
+        row.files.padEnd(widths.files),
+        row.diff.padEnd(widths.diff),
+        row.branch,
+      ].join("  ")
+    );
+  }
+
+  const notes = runs.flatMap((run) => [
+    ...(run.error ? [`\x1b[31m${run.target}:\x1b[0m ${run.error}`] : []),
+    ...(run.uncommitted ? [`\x1b[33m${run.target}:\x1b[0m changes left uncommitted in ${run.worktree}`] : []),
+  ]);
+  if (notes.length > 0) {
+    console.log();
+    notes.forEach((note) => console.log(note));
+  }
+
+  console.log();
+  console.log(`\x1b[90mlogs and worktrees: ${shortPath(runDir)}\x1b[0m`);
+  console.log(`\x1b[90mcompare: git diff <base> <branch>; clean up: git worktree remove <worktree> && git branch -D <branch>\x1b[0m`);
+}
+
+export async function runFanout(args: string[]): Promise<void> {
+  // Everything after -- is the prompt
+  const separator = args.indexOf("--");
+  const own = separator === -1 ? args : args.slice(0, separator);
+  const promptWords = separator === -1 ? [] : args.slice(separator + 1);
+
+  const { overrides, args: rest } = parseRunFlags(own);
+  if (overrides.config) await useConfigFile(overrides.config);
+
+  let concurrency = DEFAULT_CONCURRENCY;
+  let base = "HEAD";
+  let json = false;
+  const positional: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    if (arg === "--concurrency" || arg === "-j") {
+      concurrency = Number(rest[++i]);
+    } else if (arg.startsWith("--concurrency=")) {
+      concurrency = Number(arg.slice("--concurrency=".length));
+    } else if (arg === "--base") {
+      base = rest[++i] ?? "";
+    } else if (arg === "--json") {
+      json = true;
+    } else if (arg.startsWith("-")) {
+      console.error(`unknown option ${arg}`);
+      console.error(USAGE);
+      process.exit(1);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [list, ...extraWords] = positional;
+  const prompt = [...extraWords, ...promptWords].join(" ").trim();
+  if (!list || !prompt || !base) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(`\x1b[31m--concurrency must be a positive whole number\x1b[0m`);
+    process.exit(1);
+  }
+
+  // Check every target before creating anything
+  const targets = list.split(",").map((t) => t.trim()).filter(Boolean);
+  for (const input of targets) {
+    const parsed = parseTarget(input);
+    if (!parsed || (parsed.variant && !(await getVariant(parsed.scaffold, parsed.variant)))) {
+      console.error(`\x1b[31munknown variant:\x1b[0m ${input}`);
+      console.error(`run \x1b[36mcr list\x1b[0m to see available variants`);
+      process.exit(1);
+    }
+  }
+
+  const repo = await git(process.cwd(), ["rev-parse", "--show-toplevel"]).catch(() => {
+    throw new Error("cr fanout must be run inside a git repository");
+  });
+  const baseCommit = await git(repo, ["rev-parse", "--verify", `${base}^{commit}`]).catch(() => {
+    throw new Error(`unknown --base ${base}`);
+  });
+
+  const stamp = fileTimestamp(new Date());
+  const runDir = join(FANOUT_DIR, `${basename(repo)}-${stamp}`);
+  const used = new Set<string>();
+  const jobs: FanoutJob[] = targets.map((target) => {
+    // The same variant twice gets claude.glm and claude.glm-2
+    let slug = target;
+    for (let n = 2; used.has(slug); n++) slug = `${target}-${n}`;
+    used.add(slug);
+    const parsed = parseTarget(target)!;
+    return {
+      target,
+      scaffold: parsed.scaffold,
+      variant: parsed.variant,
+      branch: `cr/fanout-${stamp}/${slug}`,
+      worktree: join(runDir, slug),
+      log: join(runDir, `${slug}.log`),
+    };
+  });
+
+  if (overrides.dryRun) {
+    for (const job of jobs) {
+      const explanation = await explainTarget(job.scaffold, job.variant, HEADLESS_ARGS[job.scaffold](prompt), overrides);
+      console.log(`\x1b[90mworktree ${shortPath(job.worktree)} on branch ${job.branch} from ${base}\x1b[0m`);
+      if (explanation) printExplanation(explanation);
+      console.log();
+    }
+    return;
+  }
+
+  if (await git(repo, ["status", "--porcelain"])) {
+    log(`\x1b[33mwarning:\x1b[0m uncommitted changes in ${repo} are not in the worktrees`);
+  }
+
+  // Create worktrees one at a time; git locks the repo while adding one
+  await mkdir(runDir, { recursive: true });
+  for (const job of jobs) {
+    await git(repo, ["worktree", "add", "--quiet", "-b", job.branch, job.worktree, baseCommit]);
+  }
+
+  log(`running ${jobs.length} target${jobs.length === 1 ? "" : "s"}, ${Math.min(concurrency, jobs.length)} at a time`);
+  const runs = await mapPool(jobs, concurrency, (job) => runJob(job, prompt, baseCommit, overrides));
+
+  const summary = { repo, base, baseCommit, prompt, runDir, runs };
+  await writeFile(join(runDir, "summary.json"), JSON.stringify(summary, null, 2) + "\n");
+
+  if (json) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    console.log();
+    printSummary(runs, runDir);
+  }
+
+  if (runs.some((run) => run.exitCode !== 0)) process.exit(1);
+}
@@ -0,0 +1,168 @@
+import { dirname } from "node:path";
+import { chmod, mkdir, open, rename, stat, unlink, readFile } from "node:fs/promises";
+
+// 20261018-142501, for branch, directory and file names
+export function fileTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+}
+
+// Permission bits are meaningless on Windows
+const CHECK_PERMISSIONS = process.platform !== "win32";
+
+const warned = new Set<string>();
+
+// Make a file or directory private to the user, warning once if it wasn't
+export async function ensurePrivate(path: string, mode: number): Promise<void> {
+  if (!CHECK_PERMISSIONS) return;
+
+  let current: number;
+  try {
+    current = (await stat(path)).mode & 0o777;
+  } catch {
+    return;
+  }
+  if ((current & 0o077) === 0) return;
+
+  if (!warned.has(path)) {
+    warned.add(path);
+    console.error(
+      `\x1b[33mwarning:\x1b[0m ${path} was readable by others (${current.toString(8)}); ` +
+      `changed to ${mode.toString(8)}`
+    );
+  }
+  await chmod(path, mode);
+}
+
+// Write through a temp file and rename, so readers never see half a file
+// and a crash mid-write leaves the old contents in place. A private file's
+// directory is made private too.
+export async function writeFileAtomic(path: string, content: string, mode = 0o600): Promise<void> {
+  const isPrivate = (mode & 0o077) === 0;
+  await mkdir(dirname(path), { recursive: true, mode: isPrivate ? 0o700 : 0o777 });
+  if (isPrivate) await ensurePrivate(dirname(path), 0o700);
+
+  const temp = `${path}.${process.pid}.tmp`;
+  const handle = await open(temp, "w", mode);
+  try {
+    await handle.writeFile(content, "utf-8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    // The mode passed to open() is masked by umask
+    if (CHECK_PERMISSIONS) await chmod(temp, mode);
+    await rename(temp, path);
+  } catch (err) {
+    await unlink(temp).catch(() => {});
+    throw err;
+  }
+}
+
+// A lock without a pid older than this was left by a process killed while
+// taking it. Locks with a pid are stale exactly when that process is gone.
+const STALE_LOCK_MS = 30_000;
+const LOCK_TIMEOUT_MS = 15_000;
+const STALE_BREAKER_MS = 5_000;
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// A lock file as it was when judged stale
+interface LockSnapshot {
+  ino: number;
+  mtimeMs: number;
+  content: string;
+}
+
+async function readLock(lockPath: string): Promise<LockSnapshot | null> {
+  try {
+    const [info, content] = await Promise.all([stat(lockPath), readFile(lockPath, "utf-8")]);
+    return { ino: info.ino, mtimeMs: info.mtimeMs, content };
+  } catch {
+    // Gone or unreadable; let the next attempt decide
+    return null;
+  }
+}
+
+async function staleLock(lockPath: string): Promise<LockSnapshot | null> {
+  const lock = await readLock(lockPath);
+  if (!lock) return null;
+  const pid = Number(lock.content.trim());
+  if (lock.content.trim() && Number.isInteger(pid) && pid > 0) return isAlive(pid) ? null : lock;
+  return Date.now() - lock.mtimeMs > STALE_LOCK_MS ? lock : null;
+}
+
+// Remove a stale lock, unless another waiter already replaced it with its own.
+// Waiters do this one at a time under a second lock and re-check first, so
+// two of them can't both remove "the" stale lock, the second one deleting
+// the lock the first has just taken. Returns whether the lock was removed.
+async function removeStaleLock(lockPath: string, stale: LockSnapshot): Promise<boolean> {
+  const breaker = `${lockPath}.break`;
+  try {
+    const handle = await open(breaker, "wx", 0o600);
+    await handle.close();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    // Held only for a moment, so an old one belongs to a process that died
+    const info = await stat(breaker).catch(() => null);
+    if (info && Date.now() - info.mtimeMs > STALE_BREAKER_MS) await unlink(breaker).catch(() => {});
+    return false;
+  }
+
+  try {
+    const current = await readLock(lockPath);
+    if (!current || current.ino !== stale.ino || current.mtimeMs !== stale.mtimeMs || current.content !== stale.content) {
+      return false;
+    }
+    await unlink(lockPath);
+    return true;
+  } catch {
+    return false;
+  } finally {
+    await unlink(breaker).catch(() => {});
+  }
+}
+
+// Run fn while holding an advisory lock file next to path. Other coderouter
+// processes wait for it; a lock left by a dead process is taken over.
+export async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${path}.lock`;
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let delay = 10;
+
+  while (true) {
+    try {
+      const handle = await open(lockPath, "wx", 0o600);
+      await handle.writeFile(String(process.pid), "utf-8");
+      await handle.close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    const stale = await staleLock(lockPath);
+    if (stale && (await removeStaleLock(lockPath, stale))) continue;
+    if (Date.now() > deadline) {
+      throw new Error(`timed out waiting for ${lockPath}; delete it if no other cr is running`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, delay + Math.random() * delay));
+    delay = Math.min(delay * 2, 200);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => {});
+  }
+}
@@ -0,0 +1,122 @@
+import type { ResolvedTarget, VariantTrace } from "./types.ts";
+
+// Per-run tweaks given on the command line. Flags starting with --cr- belong
+// to coderouter and are never passed to the scaffold; everything after a
+// literal -- is passed on untouched.
+export interface RunOverrides {
+  env: Record<string, string>;
+  unset: string[];
+  region?: string;
+  model?: string;
+  config?: string;
+  quiet: boolean;
+  dryRun: boolean;
+}
+
+export const RUN_FLAGS_HELP = `  --cr-env KEY=VALUE   Set an env var for this run (repeatable)
+  --cr-unset KEY       Remove an env var, even one from your shell or cr auth (repeatable)
+  --cr-region REGION   Set the provider's region (AWS_REGION, CLOUD_ML_REGION, ...)
+  --cr-model MODEL     Run with a model from cr models, e.g. opus, as the provider's ID
+  --cr-config FILE     Use FILE instead of your config.json
+  --cr-quiet           Don't print the [cr] env summary
+  --cr-dry-run         Show what would run, like cr explain
+  --                   Pass everything after it to the scaffold as is`;
+
+export function parseRunFlags(args: string[]): { overrides: RunOverrides; args: string[] } {
+  const overrides: RunOverrides = { env: {}, unset: [], quiet: false, dryRun: false };
+  const rest: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--") {
+      rest.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--cr-")) {
+      rest.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const flag = eq === -1 ? arg : arg.slice(0, eq);
+    const value = (): string => {
+      if (eq !== -1) return arg.slice(eq + 1);
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case "--cr-env": {
+        const pair = value();
+        const sep = pair.indexOf("=");
+        if (sep <= 0) throw new Error(`--cr-env expects KEY=VALUE, got ${pair}`);
+        overrides.env[pair.slice(0, sep)] = pair.slice(sep + 1);
+        break;
+      }
+      case "--cr-unset":
+        overrides.unset.push(value());
+        break;
+      case "--cr-region":
+        overrides.region = value();
+        break;
+      case "--cr-model":
+        overrides.model = value();
+        break;
+      case "--cr-config":
+        overrides.config = value();
+        break;
+      case "--cr-quiet":
+        overrides.quiet = true;
+        break;
+      case "--cr-dry-run":
+        overrides.dryRun = true;
+        break;
+      default:
+        throw new Error(`unknown option ${flag} (options after -- are passed to the scaffold)\n${RUN_FLAGS_HELP}`);
+    }
+  }
+
+  return { overrides, args: rest };
+}
+
+// Which env var holds the region, picked by the provider a variant enables
+const REGION_VARS: Array<{ when: string; key: string }> = [
+  { when: "CLAUDE_CODE_USE_BEDROCK", key: "AWS_REGION" },
+  { when: "CLAUDE_CODE_USE_VERTEX", key: "CLOUD_ML_REGION" },
+  { when: "GOOGLE_GENAI_USE_VERTEXAI", key: "GOOGLE_CLOUD_LOCATION" },
+];
+
+function isEnabled(value: string | undefined): boolean {
+  return value !== undefined && value !== "" && value !== "0" && value.toLowerCase() !== "false";
+}
+
+export function regionKey(env: Record<string, string>): string | undefined {
+  return REGION_VARS.find((r) => isEnabled(env[r.when]))?.key;
+}
+
+// Apply overrides to a resolved target: region, then env, then unset
+export function applyRunOverrides(target: ResolvedTarget, overrides: RunOverrides, trace?: VariantTrace): void {
+  const name = target.variant ? `${target.scaffold}.${target.variant}` : target.scaffold;
+  const set: Record<string, string> = {};
+
+  if (overrides.region !== undefined) {
+    const key = regionKey(target.env);
+    if (!key) throw new Error(`--cr-region: ${name} has no region setting; use --cr-env instead`);
+    set[key] = overrides.region;
+  }
+  Object.assign(set, overrides.env);
+
+  for (const [key, value] of Object.entries(set)) {
+    target.env[key] = value;
+    if (trace) (trace.env[key] ||= []).push({ value, source: { kind: "command-line" } });
+  }
+
+  for (const key of overrides.unset) {
+    delete target.env[key];
+    if (trace) (trace.env[key] ||= []).push({ value: null, source: { kind: "command-line" } });
+  }
+  if (overrides.unset.length > 0) {
+    target.unsetEnv = [...new Set([...(target.unsetEnv || []), ...overrides.unset])];
+  }
+}
@@ -0,0 +1,226 @@
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { CONFIG_DIR, matchesGlob } from "./config.ts";
+import type { HistoryEntry } from "./types.ts";
+
+export const HISTORY_FILE = join(CONFIG_DIR, "history.jsonl");
+
+const execFileAsync = promisify(execFile);
+
+// Output of a git command, or null when it fails (or cwd is not a repo)
+export async function git(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, timeout: 2000 });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function gitInfo(cwd: string): Promise<{ repo: string | null; branch: string | null }> {
+  const repo = await git(cwd, ["rev-parse", "--show-toplevel"]);
+  if (!repo) return { repo: null, branch: null };
+  const branch = await git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  return { repo, branch };
+}
+
+// Append a run to the journal. History is best effort and never fails a run.
+export async function recordRun(entry: HistoryEntry): Promise<void> {
+  try {
+    await mkdir(CONFIG_DIR, { recursive: true });
+    await appendFile(HISTORY_FILE, JSON.stringify(entry) + "\n", "utf-8");
+  } catch {
+    // ignore
+  }
+}
+
+export async function readHistory(): Promise<HistoryEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(HISTORY_FILE, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // skip lines truncated by a crash
+    }
+  }
+  return entries;
+}
+
+export interface HistoryFilter {
+  variant?: string;
+  repo?: string;
+  since?: Date;
+  until?: Date;
+}
+
+// "7d", "12h", "2w" back from now, or anything Date understands
+export function parseDate(value: string): Date {
+  const relative = value.match(/^(\d+)([hdw])$/);
+  if (relative) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[relative[2] as "h" | "d" | "w"];
+    return new Date(Date.now() - Number(relative[1]) * hours * 3600_000);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`invalid date: ${value} (use e.g. 2025-01-31, 7d or 12h)`);
+  }
+  return date;
+}
+
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  return entries.filter((e) => {
+    if (filter.variant && !matchesGlob(e.target, filter.variant)) return false;
+    if (filter.repo && !(e.repo ?? "").includes(filter.repo)) return false;
+    const start = new Date(e.start);
+    if (filter.since && start < filter.since) return false;
+    if (filter.until && start > filter.until) return false;
+    return true;
+  });
+}
+
+function failed(e: HistoryEntry): boolean {
+  return !e.launched || e.exitCode !== 0;
+}
+
+export interface HistoryArgs {
+  filter: HistoryFilter;
+  limit?: number;
+  json: boolean;
+}
+
+// Filters shared by history, stats and usage
+export function parseHistoryArgs(args: string[]): HistoryArgs {
+  const result: HistoryArgs = { filter: {}, json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+
+    if (arg === "--json") result.json = true;
+    else if (arg === "--variant") result.filter.variant = value();
+    else if (arg === "--repo") result.filter.repo = value();
+    else if (arg === "--since") result.filter.since = parseDate(value());
+    else if (arg === "--until") result.filter.until = parseDate(value());
+    else if (arg === "--limit" || arg === "-n") {
+      const limit = Number(value());
+      if (!Number.isInteger(limit) || limit < 1) throw new Error("--limit must be a positive number");
+      result.limit = limit;
+    } else {
+      throw new Error(`unknown option: ${arg}`);
+    }
+  }
+
+  return result;
+}
+
+export function shortPath(path: string): string {
+  const home = homedir();
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function formatExit(e: HistoryEntry): string {
+  if (!e.launched) return "\x1b[31mnot launched\x1b[0m";
+  if (e.signal) return `\x1b[33m${e.signal}\x1b[0m`;
+  return e.exitCode === 0 ? "\x1b[32m0\x1b[0m" : `\x1b[31m${e.exitCode}\x1b[0m`;
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? text.slice(0, width - 1) + "…" : text;
+}
+
+// `cr history [--variant glob] [--repo text] [--since date] [--until date] [--limit n] [--json]`
+export async function runHistory(args: string[]): Promise<void> {
+  const { filter, limit = 20, json } = parseHistoryArgs(args);
+  const entries = filterHistory(await readHistory(), filter).slice(-limit);
+
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log("no runs recorded yet");
+    return;
+  }
+
+  const targetWidth = Math.max(...entries.map((e) => e.target.length));
+  for (const e of entries) {
+    const start = new Date(e.start).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+    const where = e.repo ? `${shortPath(e.repo)}${e.branch ? `@${e.branch}` : ""}` : shortPath(e.cwd);
+    const args = e.args.length > 0 ? `  \x1b[90m${truncate(e.args.join(" "), 40)}\x1b[0m` : "";
+    console.log(
+      `${start.padEnd(18)} \x1b[36m${e.target.padEnd(targetWidth)}\x1b[0m ` +
+      `${formatDuration(e.durationMs).padStart(7)}  ${formatExit(e)}  ${where}${args}`
+    );
+  }
+}
+
+export interface VariantStats {
+  target: string;
+  runs: number;
+  failures: number;
+  hours: number;
+  lastRun: string;
+}
+
+export function computeStats(entries: HistoryEntry[]): VariantStats[] {
+  const byTarget = new Map<string, VariantStats>();
+  for (const e of entries) {
+    const stats = byTarget.get(e.target) ?? { target: e.target, runs: 0, failures: 0, hours: 0, lastRun: e.start };
+    stats.runs++;
+    if (failed(e)) stats.failures++;
+    stats.hours += e.durationMs / 3600_000;
+    if (e.start > stats.lastRun) stats.lastRun = e.start;
+    byTarget.set(e.target, stats);
+  }
+  return [...byTarget.values()].sort((a, b) => b.runs - a.runs);
+}
+
+// `cr stats [--variant glob] [--repo text] [--since date] [--until date] [--json]`
+export async function runStats(args: string[]): Promise<void> {
+  const { filter, json } = parseHistoryArgs(args);
+  const stats = computeStats(filterHistory(await readHistory(), filter));
+
+  if (json) {
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+
+  if (stats.length === 0) {
+    console.log("no runs recorded yet");
+    return;
+  }
+
+  const width = Math.max(7, ...stats.map((s) => s.target.length));
+  console.log(`\x1b[1m${"variant".padEnd(width)}  ${"runs".padStart(5)}  ${"hours".padStart(7)}  ${"failed".padStart(6)}  last run\x1b[0m`);
+  for (const s of stats) {
+    const rate = `${Math.round((s.failures / s.runs) * 100)}%`;
+    console.log(
+      `${s.target.padEnd(width)}  ${String(s.runs).padStart(5)}  ${s.hours.toFixed(1).padStart(7)}  ` +
+      `${rate.padStart(6)}  ${new Date(s.lastRun).toLocaleDateString()}`
+    );
+  }
+}
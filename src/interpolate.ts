@@ -0,0 +1,151 @@
+// Variant env values may refer to other values, resolved when a target is
+// resolved:
+//   ${VAR}            another key of the same env, else the process env
+//   ${VAR:-default}   the same, with a fallback when unset or empty
+//   ${auth:NAME}      a value saved with `cr auth` for the target
+//   ${model:NAME}     the ID of a catalog model on the variant's provider
+//   $$                a literal $
+// A key referring to itself (PATH: "${PATH}:/opt/bin") reads the process env.
+
+export interface InterpolationSources {
+  processEnv: Record<string, string | undefined>;
+  // Saved auth value for NAME, or undefined when there is none
+  auth(name: string): Promise<string | undefined>;
+  // ID of catalog model NAME for the target, or undefined when it can't run it
+  model(name: string): Promise<string | undefined>;
+  // Target name for error messages, e.g. claude.glm
+  target: string;
+}
+
+type Part =
+  | { kind: "text"; text: string }
+  | { kind: "ref"; name: string; scope: "env" | "auth" | "model"; fallback?: Part[] };
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function hasReferences(value: string): boolean {
+  return value.includes("$");
+}
+
+// Parse a template into text and references; a fallback is parsed up to its }
+function parse(template: string, key: string): Part[] {
+  let i = 0;
+
+  const parseParts = (nested: boolean): Part[] => {
+    const parts: Part[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) parts.push({ kind: "text", text });
+      text = "";
+    };
+
+    while (i < template.length) {
+      const char = template[i]!;
+      if (nested && char === "}") {
+        flush();
+        return parts;
+      }
+      if (char === "$" && template[i + 1] === "$") {
+        text += "$";
+        i += 2;
+        continue;
+      }
+      if (char !== "$" || template[i + 1] !== "{") {
+        text += char;
+        i++;
+        continue;
+      }
+
+      flush();
+      const start = i;
+      i += 2;
+      const match = template.slice(i).match(/^(?:(auth|model):)?([^}:]*)(:-)?/)!;
+      i += match[0].length;
+      const name = match[2]!;
+      const scope = (match[1] as "auth" | "model" | undefined) ?? "env";
+      // Model aliases may contain dashes and dots, e.g. glm-fast
+      if (!(scope === "model" ? /^[\w.-]+$/ : NAME_PATTERN).test(name)) {
+        throw new Error(`${key}: invalid reference ${template.slice(start, i + 1)}; names are letters, digits and _`);
+      }
+
+      const ref: Part = { kind: "ref", name, scope };
+      if (match[3]) ref.fallback = parseParts(true);
+      if (template[i] !== "}") throw new Error(`${key}: expected } after \${${match[0]} in ${JSON.stringify(template)}`);
+      i++;
+      parts.push(ref);
+    }
+
+    flush();
+    return parts;
+  };
+
+  return parseParts(false);
+}
+
+// Interpolate every value of env. Throws with the key and reference when a
+// reference can't be resolved or references form a cycle.
+export async function interpolateEnv(
+  env: Record<string, string>,
+  sources: InterpolationSources
+): Promise<Record<string, string>> {
+  const resolved = new Map<string, string>();
+
+  const resolveKey = async (key: string, stack: string[]): Promise<string> => {
+    const done = resolved.get(key);
+    if (done !== undefined) return done;
+    if (stack.includes(key)) {
+      throw new Error(`env reference cycle: ${[...stack.slice(stack.indexOf(key)), key].join(" -> ")}`);
+    }
+
+    const value = env[key]!;
+    const result = hasReferences(value) ? await render(parse(value, key), key, [...stack, key]) : value;
+    resolved.set(key, result);
+    return result;
+  };
+
+  const lookup = async (name: string, key: string, stack: string[]): Promise<string | undefined> => {
+    if (name !== key && env[name] !== undefined) return resolveKey(name, stack);
+    return sources.processEnv[name];
+  };
+
+  const render = async (parts: Part[], key: string, stack: string[]): Promise<string> => {
+    let result = "";
+    for (const part of parts) {
+      if (part.kind === "text") {
+        result += part.text;
+        continue;
+      }
+
+      const value =
+        part.scope === "auth"
+          ? await sources.auth(part.name)
+          : part.scope === "model"
+            ? await sources.model(part.name)
+            : await lookup(part.name, key, stack);
+      if (value !== undefined && !(part.fallback && value === "")) {
+        result += value;
+      } else if (part.fallback) {
+        result += await render(part.fallback, key, stack);
+      } else if (part.scope === "auth") {
+        throw new Error(`${key}: \${auth:${part.name}} has no saved value; run cr auth ${sources.target}`);
+      } else if (part.scope === "model") {
+        throw new Error(`${key}: \${model:${part.name}} is not a model ${sources.target} can run; see cr models ${sources.target}`);
+      } else {
+        throw new Error(
+          `${key}: \${${part.name}} is not set; set it in your shell or use \${${part.name}:-default}`
+        );
+      }
+    }
+    return result;
+  };
+
+  const result: Record<string, string> = {};
+  try {
+    for (const key of Object.keys(env)) {
+      result[key] = await resolveKey(key, []);
+    }
+  } catch (err) {
+    throw new Error(`${sources.target}: ${(err as Error).message}`);
+  }
+  return result;
+}
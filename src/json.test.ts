@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { JsonSyntaxError, parseJson, parsePath } from "./json.ts";
+
+describe("parseJson", () => {
+  test("locates values and property names", () => {
+    const parsed = parseJson('{\n  "a": {\n    "b": [1, "x"]\n  }\n}');
+    expect(parsed.value).toEqual({ a: { b: [1, "x"] } });
+    expect(parsed.locate(["a", "b", 1])).toEqual({ line: 3, column: 14 });
+    expect(parsed.locate(["a", "b"], { key: true })).toEqual({ line: 3, column: 5 });
+  });
+
+  test("rejects a __proto__ key where it appears", () => {
+    let error: unknown;
+    try {
+      parseJson('{\n  "variants": { "__proto__": { "x": 1 } }\n}');
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(JsonSyntaxError);
+    expect((error as JsonSyntaxError).position).toEqual({ line: 2, column: 17 });
+    expect(Object.prototype).not.toHaveProperty("x");
+  });
+});
+
+describe("parsePath", () => {
+  test("splits dots and brackets", () => {
+    expect(parsePath('variants["claude.glm"].env.FOO')).toEqual(["variants", "claude.glm", "env", "FOO"]);
+    expect(parsePath("routes.fast[0]")).toEqual(["routes", "fast", 0]);
+  });
+
+  test("rejects __proto__", () => {
+    expect(() => parsePath("__proto__.polluted")).toThrow(/__proto__/);
+    expect(() => parsePath('variants["__proto__"]')).toThrow(/__proto__/);
+  });
+});
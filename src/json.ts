@@ -0,0 +1,219 @@
+// A JSON parser that remembers where every value starts, so config errors
+// can point at a line and column. JSON.parse reports neither consistently.
+
+export type JsonPath = Array<string | number>;
+
+export interface Position {
+  line: number;
+  column: number;
+}
+
+export class JsonSyntaxError extends Error {
+  constructor(message: string, public position: Position) {
+    super(message);
+    this.name = "JsonSyntaxError";
+  }
+}
+
+export interface ParsedJson {
+  value: unknown;
+  // Position of the value at path, or of the property name with `key: true`
+  locate(path: JsonPath, options?: { key?: boolean }): Position | undefined;
+}
+
+function pathKey(path: JsonPath): string {
+  return JSON.stringify(path);
+}
+
+export function parseJson(text: string): ParsedJson {
+  // Offsets are turned into positions only when an error needs one
+  const values = new Map<string, number>();
+  const keys = new Map<string, number>();
+  let i = 0;
+
+  const position = (offset: number): Position => {
+    let line = 1;
+    let lineStart = 0;
+    for (let j = 0; j < offset; j++) {
+      if (text[j] === "\n") {
+        line++;
+        lineStart = j + 1;
+      }
+    }
+    return { line, column: offset - lineStart + 1 };
+  };
+
+  const fail = (message: string, offset = i): never => {
+    throw new JsonSyntaxError(message, position(offset));
+  };
+
+  const describe = (offset: number): string =>
+    offset >= text.length ? "end of file" : `'${text[offset]}'`;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i]!)) i++;
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[i] !== char) fail(`expected '${char}' but found ${describe(i)}`);
+    i++;
+  };
+
+  const parseString = (): string => {
+    const start = i;
+    i++; // opening quote
+    let result = "";
+    while (i < text.length && text[i] !== '"') {
+      const char = text[i]!;
+      if (char === "\n") fail("unterminated string", start);
+      if (char === "\\") {
+        const escape = text[i + 1];
+        const simple: Record<string, string> = { '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+        if (escape && simple[escape] !== undefined) {
+          result += simple[escape];
+          i += 2;
+        } else if (escape === "u" && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) {
+          result += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+          i += 6;
+        } else {
+          fail("invalid escape in string");
+        }
+      } else {
+        result += char;
+        i++;
+      }
+    }
+    if (i >= text.length) fail("unterminated string", start);
+    i++; // closing quote
+    return result;
+  };
+
+  const parseValue = (path: JsonPath): unknown => {
+    skipWhitespace();
+    values.set(pathKey(path), i);
+    const char = text[i];
+
+    if (char === "{") {
+      i++;
+      const object: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[i] === "}") {
+        i++;
+        return object;
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[i] !== '"') {
+          fail(text[i] === "}" ? "trailing comma before '}'" : `expected a property name but found ${describe(i)}`);
+        }
+        const keyStart = i;
+        const key = parseString();
+        // Assigning it would replace the object's prototype instead of adding a key
+        if (key === "__proto__") fail(`"__proto__" can't be used as a property name`, keyStart);
+        keys.set(pathKey([...path, key]), keyStart);
+        expect(":");
+        object[key] = parseValue([...path, key]);
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === "}") {
+          i++;
+          return object;
+        }
+        fail(`expected ',' or '}' but found ${describe(i)}`);
+      }
+    }
+
+    if (char === "[") {
+      i++;
+      const array: unknown[] = [];
+      skipWhitespace();
+      if (text[i] === "]") {
+        i++;
+        return array;
+      }
+      while (true) {
+        array.push(parseValue([...path, array.length]));
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+          skipWhitespace();
+          if (text[i] === "]") fail("trailing comma before ']'");
+          continue;
+        }
+        if (text[i] === "]") {
+          i++;
+          return array;
+        }
+        fail(`expected ',' or ']' but found ${describe(i)}`);
+      }
+    }
+
+    if (char === '"') return parseString();
+
+    const literal = text.slice(i).match(/^(true|false|null|-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?)/);
+    if (literal) {
+      i += literal[0].length;
+      return JSON.parse(literal[0]);
+    }
+
+    return fail(char === "'" ? "strings must use double quotes" : `unexpected ${describe(i)}`);
+  };
+
+  const value = parseValue([]);
+  skipWhitespace();
+  if (i < text.length) fail(`unexpected ${describe(i)} after the end of the document`);
+
+  return {
+    value,
+    locate(path, options = {}) {
+      const offset = (options.key ? keys : values).get(pathKey(path));
+      return offset === undefined ? undefined : position(offset);
+    },
+  };
+}
+
+// variants["claude.glm"].env.FOO
+export function formatPath(path: JsonPath): string {
+  let result = "";
+  for (const part of path) {
+    if (typeof part === "number") result += `[${part}]`;
+    else if (/^[A-Za-z_$][\w$]*$/.test(part)) result += result ? `.${part}` : part;
+    else result += `[${JSON.stringify(part)}]`;
+  }
+  return result || "(root)";
+}
+
+// The inverse of formatPath: `variants["claude.glm"].env.FOO`, `routes.fast[0]`
+export function parsePath(input: string): JsonPath {
+  const path: JsonPath = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (input[i] === "[") {
+      const close = input[i + 1] === '"' ? input.indexOf('"]', i + 2) + 1 : input.indexOf("]", i);
+      if (close <= i) throw new Error(`unclosed [ in path: ${input}`);
+      const inner = input.slice(i + 1, close);
+      if (/^\d+$/.test(inner)) path.push(Number(inner));
+      else if (inner.startsWith('"')) path.push(JSON.parse(inner) as string);
+      else throw new Error(`expected [number] or ["key"] in path: ${input}`);
+      i = close + 1;
+    } else {
+      if (input[i] === ".") {
+        if (path.length === 0) throw new Error(`path can't start with '.': ${input}`);
+        i++;
+      }
+      const match = input.slice(i).match(/^[^.[]+/);
+      if (!match) throw new Error(`empty segment in path: ${input}`);
+      path.push(match[0]);
+      i += match[0].length;
+    }
+  }
+
+  if (path.length === 0) throw new Error("empty path");
+  if (path.includes("__proto__")) throw new Error(`"__proto__" can't be used in a path: ${input}`);
+  return path;
+}
@@ -0,0 +1,93 @@
+import type { BuiltinVariant, UserVariant } from "./types.ts";
+
+// Config files record the format they were written in as "schemaVersion".
+// Files from before versioning count as version 0. Each step upgrades a
+// config from `version - 1` to `version`; append new steps, never reorder.
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(config: Record<string, unknown>): Record<string, unknown>;
+}
+
+type RawConfig = Record<string, unknown>;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'move "secrets" ("claude.glm:VAR": value) into "auth" patterns',
+    migrate(config) {
+      const { secrets, ...rest } = config;
+      if (!secrets || typeof secrets !== "object") return config;
+
+      const auth = { ...(rest.auth as Record<string, Record<string, string>> | undefined) };
+      for (const [key, value] of Object.entries(secrets as Record<string, string>)) {
+        // Old format: "claude.glm:ANTHROPIC_AUTH_TOKEN" -> "sk-..."
+        const match = key.match(/^([^:]+):(.+)$/);
+        if (match) {
+          const [, target, envVar] = match;
+          const authKey = `${target}*`;
+          auth[authKey] = { ...auth[authKey], [envVar!]: value };
+        }
+      }
+      return { ...rest, auth };
+    },
+  },
+  {
+    version: 2,
+    description: "flatten variants nested by scaffold into full names",
+    migrate(config) {
+      const variants = config.variants;
+      if (!variants || typeof variants !== "object") return config;
+
+      const newVariants: Record<string, UserVariant> = {};
+      for (const [scaffold, nested] of Object.entries(variants as Record<string, unknown>)) {
+        if (typeof nested !== "object" || nested === null) continue;
+        // Old format has builtin-shaped variants (with "name") under each scaffold
+        const firstValue = Object.values(nested)[0];
+        if (!firstValue || typeof firstValue !== "object" || !("name" in firstValue)) continue;
+
+        for (const [name, variant] of Object.entries(nested as Record<string, BuiltinVariant>)) {
+          const { description, env, defaultArgs, requiredEnvVars } = variant;
+          newVariants[`${scaffold}.${name}`] = JSON.parse(
+            JSON.stringify({ description, env, defaultArgs, requiredEnvVars })
+          );
+        }
+      }
+
+      if (Object.keys(newVariants).length === 0) return config;
+      return { ...config, variants: newVariants };
+    },
+  },
+];
+
+export const CONFIG_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+export function configVersion(config: RawConfig): number {
+  return typeof config.schemaVersion === "number" ? config.schemaVersion : 0;
+}
+
+export interface MigrationResult {
+  config: RawConfig;
+  from: number;
+  applied: Migration[];
+}
+
+// Bring a config up to CONFIG_VERSION. The result carries the new version.
+export function migrate(config: RawConfig): MigrationResult {
+  const from = configVersion(config);
+  if (from > CONFIG_VERSION) {
+    throw new Error(
+      `schemaVersion ${from} is newer than this coderouter supports (${CONFIG_VERSION}); upgrade coderouter`
+    );
+  }
+
+  const applied = MIGRATIONS.filter((m) => m.version > from);
+  let migrated = config;
+  for (const step of applied) {
+    migrated = step.migrate(migrated);
+  }
+
+  // Keep schemaVersion first so it's the first thing anyone reading the file sees
+  const { schemaVersion: _, ...rest } = migrated;
+  return { config: { schemaVersion: CONFIG_VERSION, ...rest }, from, applied };
+}
@@ -0,0 +1,180 @@
+import type { Scaffold, ModelAlias, ResolvedTarget } from "./types.ts";
+
+// Logical model names and their ID on each provider that serves them. A
+// variant's `provider` picks the column, and `scaffolds` says which CLIs can
+// drive the model: vertex serves both Claude and Gemini, but claude.vertex
+// can only run the Claude ones. Presets, setup, `--cr-model` and
+// `${model:NAME}` in env values all read this table, so a new model version
+// is a one-line change here (or a `models` entry in config.json).
+export const MODEL_CATALOG: Record<string, ModelAlias> = {
+  opus: {
+    description: "Claude Opus 4.5",
+    scaffolds: ["claude"],
+    ids: {
+      anthropic: "claude-opus-4-5-20251101",
+      bedrock: "global.anthropic.claude-opus-4-5-20251101-v1:0",
+      vertex: "claude-opus-4-5@20251101",
+      foundry: "claude-opus-4-5",
+      openrouter: "anthropic/claude-opus-4.5",
+    },
+  },
+  sonnet: {
+    description: "Claude Sonnet 4.5",
+    scaffolds: ["claude"],
+    ids: {
+      anthropic: "claude-sonnet-4-5-20250929",
+      bedrock: "global.anthropic.claude-sonnet-4-5-20250929-v1:0",
+      vertex: "claude-sonnet-4-5@20250929",
+      foundry: "claude-sonnet-4-5",
+      openrouter: "anthropic/claude-sonnet-4.5",
+    },
+  },
+  haiku: {
+    description: "Claude Haiku 4.5",
+    scaffolds: ["claude"],
+    ids: {
+      anthropic: "claude-haiku-4-5-20251001",
+      bedrock: "us.anthropic.claude-haiku-4-5-20251001-v1:0",
+      vertex: "claude-haiku-4-5@20251001",
+      foundry: "claude-haiku-4-5",
+      openrouter: "anthropic/claude-haiku-4.5",
+    },
+  },
+  glm: { description: "Z.AI GLM-4.7", scaffolds: ["claude"], ids: { zai: "glm-4.7" } },
+  "glm-fast": { description: "Z.AI GLM-4.5 Air", scaffolds: ["claude"], ids: { zai: "glm-4.5-air" } },
+  minimax: { description: "MiniMax M2.1", scaffolds: ["claude"], ids: { minimax: "MiniMax-M2.1" } },
+  kimi: {
+    description: "Moonshot Kimi K2 Thinking Turbo",
+    scaffolds: ["claude"],
+    ids: { moonshot: "kimi-k2-thinking-turbo" },
+  },
+  "qwen3-coder": {
+    description: "Qwen3 Coder (local)",
+    scaffolds: ["claude"],
+    ids: { ollama: "qwen3-coder", lmstudio: "qwen/qwen3-coder-30b" },
+  },
+  "gpt-5-codex": {
+    description: "GPT-5 Codex",
+    scaffolds: ["codex"],
+    ids: { openai: "gpt-5-codex", openrouter: "openai/gpt-5-codex" },
+  },
+  "gpt-oss": { description: "gpt-oss 20B (local)", scaffolds: ["codex"], ids: { ollama: "gpt-oss:20b" } },
+  "gemini-pro": {
+    description: "Gemini 2.5 Pro",
+    scaffolds: ["gemini"],
+    ids: { gemini: "gemini-2.5-pro", vertex: "gemini-2.5-pro" },
+  },
+  "gemini-flash": {
+    description: "Gemini 2.5 Flash",
+    scaffolds: ["gemini"],
+    ids: { gemini: "gemini-2.5-flash", vertex: "gemini-2.5-flash" },
+  },
+};
+
+// Provider used when a variant doesn't name one
+export const DEFAULT_PROVIDER: Record<Scaffold, string | undefined> = {
+  claude: "anthropic",
+  opencode: undefined, // opencode picks models itself
+  codex: "openai",
+  gemini: "gemini",
+};
+
+// Env var each scaffold reads its model from; codex takes `-c model=` instead
+const MODEL_ENV: Partial<Record<Scaffold, string>> = {
+  claude: "ANTHROPIC_MODEL",
+  gemini: "GEMINI_MODEL",
+};
+
+// ID of a catalog model on a provider, for presets and setup defaults
+export function modelId(alias: string, provider: string): string {
+  const id = MODEL_CATALOG[alias]?.ids[provider];
+  if (!id) throw new Error(`model catalog has no ${alias} on ${provider}`);
+  return id;
+}
+
+// The builtin catalog with config.json `models` merged over it per provider
+export function mergeCatalog(overrides: Record<string, ModelAlias> = {}): Record<string, ModelAlias> {
+  const catalog = { ...MODEL_CATALOG };
+  for (const [alias, entry] of Object.entries(overrides)) {
+    const base = catalog[alias];
+    catalog[alias] = {
+      description: entry.description ?? base?.description,
+      scaffolds: entry.scaffolds ?? base?.scaffolds,
+      ids: { ...base?.ids, ...entry.ids },
+    };
+  }
+  return catalog;
+}
+
+function aliasId(entry: ModelAlias, scaffold: Scaffold, provider: string | undefined): string | undefined {
+  if (entry.scaffolds && !entry.scaffolds.includes(scaffold)) return undefined;
+  return provider ? entry.ids[provider] : undefined;
+}
+
+// ID of a catalog alias for a scaffold on a provider, if that pair can run it
+export function lookupModel(
+  alias: string,
+  scaffold: Scaffold,
+  provider: string | undefined,
+  catalog: Record<string, ModelAlias>
+): string | undefined {
+  const entry = catalog[alias];
+  return entry ? aliasId(entry, scaffold, provider) : undefined;
+}
+
+// Turn an alias into the provider's model ID. Names that aren't aliases are
+// taken as model IDs, so `--cr-model claude-opus-4-1` works too.
+export function resolveModel(
+  name: string,
+  scaffold: Scaffold,
+  provider: string | undefined,
+  catalog: Record<string, ModelAlias>
+): string {
+  const entry = catalog[name];
+  if (!entry) return name;
+
+  const id = aliasId(entry, scaffold, provider);
+  if (!id) {
+    const on = provider ? `${scaffold} on ${provider}` : `${scaffold} without a provider`;
+    const where = entry.scaffolds ? `${entry.scaffolds.join(", ")} on ` : "";
+    throw new Error(`model ${name} isn't available for ${on}; it is for ${where}${Object.keys(entry.ids).join(", ")}`);
+  }
+  return id;
+}
+
+// Aliases a scaffold can run on a provider, with their IDs
+export function modelsFor(
+  scaffold: Scaffold,
+  provider: string,
+  catalog: Record<string, ModelAlias>
+): Array<{ alias: string; id: string }> {
+  return Object.entries(catalog).flatMap(([alias, entry]) => {
+    const id = aliasId(entry, scaffold, provider);
+    return id ? [{ alias, id }] : [];
+  });
+}
+
+export type ModelSetting = { kind: "env"; key: string } | { kind: "arg" };
+
+export function modelSetting(scaffold: Scaffold): ModelSetting | undefined {
+  if (scaffold === "codex") return { kind: "arg" };
+  const key = MODEL_ENV[scaffold];
+  return key ? { kind: "env", key } : undefined;
+}
+
+const CODEX_MODEL_ARG = /^model\s*=\s*"(.*)"$/;
+
+// The model ID a resolved target will run with, if it sets one
+export function currentModel(target: ResolvedTarget): string | undefined {
+  const setting = modelSetting(target.scaffold);
+  if (!setting) return undefined;
+  if (setting.kind === "env") return target.env[setting.key];
+
+  // The last -c model="..." wins
+  let model: string | undefined;
+  target.defaultArgs.forEach((arg, i) => {
+    const match = target.defaultArgs[i - 1] === "-c" ? arg.match(CODEX_MODEL_ARG) : null;
+    if (match) model = match[1];
+  });
+  return model;
+}
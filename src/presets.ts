@@ -1,4 +1,5 @@
 import type { Scaffold, BuiltinVariant } from "./types.ts";
+import { modelId } from "./models.ts";
 
 // Built-in variants organized by scaffold
 export const builtinVariants: Record<Scaffold, Record<string, BuiltinVariant>> = {
@@ -6,22 +7,24 @@ export const builtinVariants: Record<Scaffold, Record<string, BuiltinVariant>> =
     aws: {
       name: "aws",
       description: "AWS Bedrock with Opus",
+      provider: "bedrock",
       env: {
         CLAUDE_CODE_USE_BEDROCK: "1",
         AWS_REGION: "us-west-1",
-        ANTHROPIC_MODEL: "global.anthropic.claude-opus-4-5-20251101-v1:0",
-        ANTHROPIC_SMALL_FAST_MODEL: "us.anthropic.claude-haiku-4-5-20251001-v1:0",
+        ANTHROPIC_MODEL: modelId("opus", "bedrock"),
+        ANTHROPIC_SMALL_FAST_MODEL: modelId("haiku", "bedrock"),
       },
       // AWS SDK handles auth via ~/.aws/credentials, env vars, or IAM roles
     },
     vertex: {
       name: "vertex",
       description: "Google Cloud Vertex AI (Opus)",
+      provider: "vertex",
       env: {
         CLAUDE_CODE_USE_VERTEX: "1",
         CLOUD_ML_REGION: "global",
-        ANTHROPIC_MODEL: "claude-opus-4-5@20251101",
-        ANTHROPIC_SMALL_FAST_MODEL: "claude-haiku-4-5@20251001",
+        ANTHROPIC_MODEL: modelId("opus", "vertex"),
+        ANTHROPIC_SMALL_FAST_MODEL: modelId("haiku", "vertex"),
       },
       // GCP SDK handles auth via gcloud auth or service account
       requiredEnvVars: ["ANTHROPIC_VERTEX_PROJECT_ID"],
@@ -29,21 +32,23 @@ export const builtinVariants: Record<Scaffold, Record<string, BuiltinVariant>> =
     glm: {
       name: "glm",
       description: "Z.AI GLM models (GLM-4.7)",
+      provider: "zai",
       env: {
         ANTHROPIC_BASE_URL: "https://api.z.ai/api/anthropic",
-        ANTHROPIC_DEFAULT_OPUS_MODEL: "glm-4.7",
-        ANTHROPIC_DEFAULT_SONNET_MODEL: "glm-4.7",
-        ANTHROPIC_DEFAULT_HAIKU_MODEL: "glm-4.5-air",
+        ANTHROPIC_DEFAULT_OPUS_MODEL: modelId("glm", "zai"),
+        ANTHROPIC_DEFAULT_SONNET_MODEL: modelId("glm", "zai"),
+        ANTHROPIC_DEFAULT_HAIKU_MODEL: modelId("glm-fast", "zai"),
       },
       requiredEnvVars: ["ANTHROPIC_AUTH_TOKEN"],
     },
     minimax: {
       name: "minimax",
       description: "MiniMax M2.1",
+      provider: "minimax",
       env: {
         ANTHROPIC_BASE_URL: "https://api.minimax.io/anthropic",
-        ANTHROPIC_MODEL: "MiniMax-M2.1",
-        ANTHROPIC_SMALL_FAST_MODEL: "MiniMax-M2.1",
+        ANTHROPIC_MODEL: modelId("minimax", "minimax"),
+        ANTHROPIC_SMALL_FAST_MODEL: modelId("minimax", "minimax"),
         CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC: "1",
         API_TIMEOUT_MS: "3000000",
       },
@@ -52,6 +57,7 @@ export const builtinVariants: Record<Scaffold, Record<string, BuiltinVariant>> =
     openrouter: {
       name: "openrouter",
       description: "OpenRouter API",
+      provider: "openrouter",
       env: {
         ANTHROPIC_BASE_URL: "https://openrouter.ai/api",
         ANTHROPIC_API_KEY: "",
@@ -61,6 +67,7 @@ export const builtinVariants: Record<Scaffold, Record<string, BuiltinVariant>> =
     azure: {
       name: "azure",
       description: "Microsoft Azure Foundry",
+      provider: "foundry",
       env: {
         CLAUDE_CODE_USE_FOUNDRY: "1",
       },
@@ -70,16 +77,39 @@ export const builtinVariants: Record<Scaffold, Record<string, BuiltinVariant>> =
     kimi: {
       name: "kimi",
       description: "Moonshot Kimi K2",
+      provider: "moonshot",
       env: {
         ANTHROPIC_BASE_URL: "https://api.moonshot.ai/anthropic",
-        ANTHROPIC_MODEL: "kimi-k2-thinking-turbo",
-        ANTHROPIC_DEFAULT_OPUS_MODEL: "kimi-k2-thinking-turbo",
-        ANTHROPIC_DEFAULT_SONNET_MODEL: "kimi-k2-thinking-turbo",
-        ANTHROPIC_DEFAULT_HAIKU_MODEL: "kimi-k2-thinking-turbo",
-        CLAUDE_CODE_SUBAGENT_MODEL: "kimi-k2-thinking-turbo",
+        ANTHROPIC_MODEL: modelId("kimi", "moonshot"),
+        ANTHROPIC_DEFAULT_OPUS_MODEL: modelId("kimi", "moonshot"),
+        ANTHROPIC_DEFAULT_SONNET_MODEL: modelId("kimi", "moonshot"),
+        ANTHROPIC_DEFAULT_HAIKU_MODEL: modelId("kimi", "moonshot"),
+        CLAUDE_CODE_SUBAGENT_MODEL: modelId("kimi", "moonshot"),
       },
       requiredEnvVars: ["ANTHROPIC_AUTH_TOKEN"],
     },
+    ollama: {
+      name: "ollama",
+      description: "Ollama (via local OpenAI proxy)",
+      provider: "ollama",
+      env: {
+        ANTHROPIC_MODEL: modelId("qwen3-coder", "ollama"),
+        ANTHROPIC_SMALL_FAST_MODEL: modelId("qwen3-coder", "ollama"),
+        CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC: "1",
+      },
+      proxy: { baseUrl: "http://localhost:11434/v1" },
+    },
+    lmstudio: {
+      name: "lmstudio",
+      description: "LM Studio (via local OpenAI proxy)",
+      provider: "lmstudio",
+      env: {
+        ANTHROPIC_MODEL: modelId("qwen3-coder", "lmstudio"),
+        ANTHROPIC_SMALL_FAST_MODEL: modelId("qwen3-coder", "lmstudio"),
+        CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC: "1",
+      },
+      proxy: { baseUrl: "http://localhost:1234/v1" },
+    },
   },
 
   opencode: {
@@ -87,30 +117,121 @@ export const builtinVariants: Record<Scaffold, Record<string, BuiltinVariant>> =
       name: "omoc",
       description: "oh-my-opencode",
       env: {},
-      xdgConfigSubdir: "opencode-omoc",
     },
   },
 
-  codex: {},
+  // codex reads its settings from config.toml; `-c key=value` overrides it per run
+  codex: {
+    high: {
+      name: "high",
+      description: "GPT-5 Codex with high reasoning effort",
+      provider: "openai",
+      env: {},
+      defaultArgs: ["-c", `model="${modelId("gpt-5-codex", "openai")}"`, "-c", 'model_reasoning_effort="high"'],
+    },
+    openai: {
+      name: "openai",
+      description: "OpenAI API key instead of ChatGPT login",
+      provider: "openai",
+      env: {},
+      defaultArgs: [
+        "-c", 'model_provider="openai-api"',
+        "-c", 'model_providers.openai-api.name="OpenAI API"',
+        "-c", 'model_providers.openai-api.base_url="https://api.openai.com/v1"',
+        "-c", 'model_providers.openai-api.env_key="OPENAI_API_KEY"',
+        "-c", 'model_providers.openai-api.wire_api="responses"',
+      ],
+      requiredEnvVars: ["OPENAI_API_KEY"],
+    },
+    openrouter: {
+      name: "openrouter",
+      description: "OpenRouter API",
+      provider: "openrouter",
+      env: {},
+      defaultArgs: [
+        "-c", `model="${modelId("gpt-5-codex", "openrouter")}"`,
+        "-c", 'model_provider="openrouter"',
+        "-c", 'model_providers.openrouter.name="OpenRouter"',
+        "-c", 'model_providers.openrouter.base_url="https://openrouter.ai/api/v1"',
+        "-c", 'model_providers.openrouter.env_key="OPENROUTER_API_KEY"',
+        "-c", 'model_providers.openrouter.wire_api="chat"',
+      ],
+      requiredEnvVars: ["OPENROUTER_API_KEY"],
+    },
+    ollama: {
+      name: "ollama",
+      description: "Local gpt-oss via Ollama",
+      provider: "ollama",
+      env: {},
+      defaultArgs: ["--oss", "-c", `model="${modelId("gpt-oss", "ollama")}"`],
+    },
+  },
 
   gemini: {
     pro: {
       name: "pro",
       description: "Gemini Pro model",
+      provider: "gemini",
       env: {
-        GEMINI_MODEL: "gemini-2.5-pro",
+        GEMINI_MODEL: modelId("gemini-pro", "gemini"),
       },
     },
     flash: {
       name: "flash",
       description: "Gemini Flash model",
+      provider: "gemini",
       env: {
-        GEMINI_MODEL: "gemini-2.5-flash",
+        GEMINI_MODEL: modelId("gemini-flash", "gemini"),
       },
     },
+    vertex: {
+      name: "vertex",
+      description: "Google Cloud Vertex AI",
+      provider: "vertex",
+      env: {
+        GOOGLE_GENAI_USE_VERTEXAI: "true",
+        GOOGLE_CLOUD_LOCATION: "global",
+      },
+      // Auth via gcloud application-default credentials
+      requiredEnvVars: ["GOOGLE_CLOUD_PROJECT"],
+    },
+    apikey: {
+      name: "apikey",
+      description: "Gemini API key from AI Studio",
+      provider: "gemini",
+      env: {
+        GOOGLE_GENAI_USE_VERTEXAI: "false",
+      },
+      requiredEnvVars: ["GEMINI_API_KEY"],
+    },
   },
 };
 
+// Env var that points each scaffold at its config home
+export const CONFIG_HOME_ENV: Record<Scaffold, string> = {
+  claude: "CLAUDE_CONFIG_DIR",
+  opencode: "XDG_CONFIG_HOME",
+  codex: "CODEX_HOME",
+  gemini: "GEMINI_CLI_HOME",
+};
+
+// Whether variants get their own config home unless they set configHome
+export const ISOLATED_BY_DEFAULT: Record<Scaffold, boolean> = {
+  claude: false,
+  opencode: true,
+  codex: true,
+  gemini: false,
+};
+
+// How to run each scaffold once on a prompt, with no one at the keyboard to
+// approve file edits
+export const HEADLESS_ARGS: Record<Scaffold, (prompt: string) => string[]> = {
+  claude: (prompt) => ["-p", prompt, "--permission-mode", "acceptEdits"],
+  opencode: (prompt) => ["run", prompt],
+  codex: (prompt) => ["exec", "--full-auto", prompt],
+  gemini: (prompt) => ["-p", prompt, "--approval-mode", "auto_edit"],
+};
+
 // Scaffolds that are valid entry points
 export const SCAFFOLDS: Scaffold[] = ["claude", "opencode", "codex", "gemini"];
 
@@ -0,0 +1,80 @@
+import type { ModelPrice } from "./types.ts";
+
+// List prices in USD per million tokens, keyed by normalized model ID.
+// Override or extend with "pricing" in config.json.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  // Anthropic (same rates on Bedrock and Vertex global endpoints)
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+
+  // Z.AI
+  "glm-4.7": { input: 0.6, output: 2.2, cacheWrite: 0.6, cacheRead: 0.11 },
+  "glm-4.6": { input: 0.6, output: 2.2, cacheWrite: 0.6, cacheRead: 0.11 },
+  "glm-4.5-air": { input: 0.2, output: 1.1, cacheWrite: 0.2, cacheRead: 0.03 },
+
+  // MiniMax
+  "minimax-m2.1": { input: 0.3, output: 1.2, cacheWrite: 0.375, cacheRead: 0.03 },
+  "minimax-m2": { input: 0.3, output: 1.2, cacheWrite: 0.375, cacheRead: 0.03 },
+
+  // Moonshot
+  "kimi-k2-thinking-turbo": { input: 1.15, output: 8, cacheWrite: 1.15, cacheRead: 0.15 },
+  "kimi-k2-thinking": { input: 0.6, output: 2.5, cacheWrite: 0.6, cacheRead: 0.15 },
+
+  // Local models through the proxy
+  "qwen3-coder": { input: 0, output: 0 },
+  "qwen/qwen3-coder-30b": { input: 0, output: 0 },
+};
+
+// Reduce provider-specific IDs to the bare model name:
+//   global.anthropic.claude-opus-4-5-20251101-v1:0 -> claude-opus-4-5-20251101
+//   claude-opus-4-5@20251101                       -> claude-opus-4-5-20251101
+export function normalizeModelId(model: string): string {
+  return model
+    .toLowerCase()
+    .replace(/^(global|us|eu|apac|jp|au)\.anthropic\./, "")
+    .replace(/^anthropic[./]/, "")
+    .replace(/-v\d+(:\d+)?$/, "")
+    .replace("@", "-");
+}
+
+// Price for a model: exact ID first, then the longest key the ID starts with
+// (so dated snapshots like claude-haiku-4-5-20251001 match claude-haiku-4-5)
+export function findPrice(
+  model: string,
+  overrides: Record<string, ModelPrice> = {}
+): ModelPrice | null {
+  const table: Record<string, ModelPrice> = { ...MODEL_PRICES };
+  for (const [key, price] of Object.entries(overrides)) {
+    table[normalizeModelId(key)] = price;
+  }
+
+  const id = normalizeModelId(model);
+  if (table[id]) return table[id];
+
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (id.startsWith(key + "-") && (!best || key.length > best.length)) best = key;
+  }
+  return best ? table[best]! : null;
+}
+
+export interface TokenCounts {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export function costOf(tokens: TokenCounts, price: ModelPrice): number {
+  return (
+    tokens.input * price.input +
+    tokens.output * price.output +
+    tokens.cacheWrite * (price.cacheWrite ?? price.input) +
+    tokens.cacheRead * (price.cacheRead ?? price.input)
+  ) / 1_000_000;
+}
@@ -0,0 +1,24 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { startProxy, type ProxyServer } from "./proxy.ts";
+
+describe("proxy /v1/messages", () => {
+  let proxy: ProxyServer;
+
+  beforeAll(async () => {
+    // Nothing listens upstream; a request that got that far would be a 502
+    proxy = await startProxy({ baseUrl: "http://127.0.0.1:9/v1" });
+  });
+
+  afterAll(async () => {
+    await proxy.close();
+  });
+
+  for (const body of ["null", "{}", '{"messages": "hi"}', "[]"]) {
+    test(`rejects ${body} with a 400`, async () => {
+      const res = await fetch(`${proxy.url}/v1/messages`, { method: "POST", body });
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as { error: { type: string } };
+      expect(json.error.type).toBe("invalid_request_error");
+    });
+  }
+});
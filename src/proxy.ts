@@ -0,0 +1,591 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ProxyConfig } from "./types.ts";
+import { getAuth, getVariant } from "./config.ts";
+
+// Port used by `cr proxy` when running standalone
+export const DEFAULT_PROXY_PORT = 8787;
+
+export interface ProxyOptions {
+  port?: number;
+  apiKey?: string;
+  // Don't keep the process alive just for the proxy
+  unref?: boolean;
+  log?: (line: string) => void;
+}
+
+export interface ProxyServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Anthropic Messages API (the subset claude sends)
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | AnthropicContentBlock[];
+  is_error?: boolean;
+  source?: { type: string; media_type?: string; data?: string; url?: string };
+}
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema?: unknown;
+}
+
+interface AnthropicRequest {
+  model: string;
+  system?: string | AnthropicContentBlock[];
+  messages: AnthropicMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+}
+
+// OpenAI Chat Completions API
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAIContentPart[] }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIResponse {
+  id?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIStreamChunk {
+  id?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+const STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  content_filter: "end_turn",
+};
+
+function mapStopReason(reason: string | null | undefined): string {
+  return (reason && STOP_REASONS[reason]) || "end_turn";
+}
+
+function blockText(content: string | AnthropicContentBlock[] | undefined): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .map((b) => (b.type === "text" ? b.text ?? "" : b.type === "image" ? "[image]" : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+function convertMessages(req: AnthropicRequest): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [];
+
+  const system = blockText(req.system);
+  if (system) out.push({ role: "system", content: system });
+
+  for (const msg of req.messages) {
+    if (typeof msg.content === "string") {
+      out.push(
+        msg.role === "user"
+          ? { role: "user", content: msg.content }
+          : { role: "assistant", content: msg.content }
+      );
+      continue;
+    }
+
+    if (msg.role === "assistant") {
+      const text = msg.content
+        .filter((b) => b.type === "text")
+        .map((b) => b.text ?? "")
+        .join("");
+      const toolCalls: OpenAIToolCall[] = msg.content
+        .filter((b) => b.type === "tool_use")
+        .map((b) => ({
+          id: b.id ?? "",
+          type: "function",
+          function: { name: b.name ?? "", arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      out.push({
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // Tool results become "tool" messages, which must directly follow the
+    // assistant message that issued the calls
+    const parts: OpenAIContentPart[] = [];
+    for (const block of msg.content) {
+      if (block.type === "tool_result") {
+        const text = blockText(block.content);
+        out.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id ?? "",
+          content: block.is_error ? `Error: ${text}` : text,
+        });
+      } else if (block.type === "text" && block.text) {
+        parts.push({ type: "text", text: block.text });
+      } else if (block.type === "image" && block.source) {
+        const url =
+          block.source.type === "base64"
+            ? `data:${block.source.media_type};base64,${block.source.data}`
+            : block.source.url ?? "";
+        parts.push({ type: "image_url", image_url: { url } });
+      }
+    }
+
+    if (parts.length === 1 && parts[0]!.type === "text") {
+      out.push({ role: "user", content: parts[0]!.text });
+    } else if (parts.length > 0) {
+      out.push({ role: "user", content: parts });
+    }
+  }
+
+  return out;
+}
+
+export function toOpenAIRequest(req: AnthropicRequest, config: ProxyConfig): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    model: config.model || req.model,
+    messages: convertMessages(req),
+  };
+
+  if (req.max_tokens !== undefined) body.max_tokens = req.max_tokens;
+  if (req.temperature !== undefined) body.temperature = req.temperature;
+  if (req.top_p !== undefined) body.top_p = req.top_p;
+  if (req.stop_sequences?.length) body.stop = req.stop_sequences;
+
+  // Server-side tools (web search etc.) have no input_schema and can't be forwarded
+  const tools = (req.tools || []).filter((t) => t.input_schema);
+  if (tools.length > 0) {
+    body.tools = tools.map((t) => ({
+      type: "function",
+      function: { name: t.name, description: t.description, parameters: t.input_schema },
+    }));
+
+    const choice = req.tool_choice;
+    if (choice?.type === "any") body.tool_choice = "required";
+    else if (choice?.type === "none") body.tool_choice = "none";
+    else if (choice?.type === "tool" && choice.name) {
+      body.tool_choice = { type: "function", function: { name: choice.name } };
+    }
+  }
+
+  if (req.stream) {
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+  }
+
+  return body;
+}
+
+function parseToolInput(args: string | undefined): unknown {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+export function toAnthropicResponse(resp: OpenAIResponse, model: string): Record<string, unknown> {
+  const choice = resp.choices?.[0];
+  const content: AnthropicContentBlock[] = [];
+
+  if (choice?.message?.content) {
+    content.push({ type: "text", text: choice.message.content });
+  }
+  for (const call of choice?.message?.tool_calls || []) {
+    content.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.function.name,
+      input: parseToolInput(call.function.arguments),
+    });
+  }
+
+  return {
+    id: `msg_${resp.id || Date.now()}`,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: mapStopReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: resp.usage?.prompt_tokens ?? 0,
+      output_tokens: resp.usage?.completion_tokens ?? 0,
+    },
+  };
+}
+
+// Read an SSE body and yield the parsed `data:` payloads
+async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith("data:")) yield rest.slice(5).trim();
+}
+
+// Translate an OpenAI chat completion stream into Anthropic message events
+async function streamToAnthropic(
+  body: ReadableStream<Uint8Array>,
+  res: ServerResponse,
+  model: string
+): Promise<void> {
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream",
+    "cache-control": "no-cache",
+    connection: "keep-alive",
+  });
+
+  send("message_start", {
+    type: "message_start",
+    message: {
+      id: `msg_${Date.now()}`,
+      type: "message",
+      role: "assistant",
+      model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0 },
+    },
+  });
+
+  let blockIndex = -1;
+  let openBlock: "text" | "tool" | null = null;
+  let currentToolCall = -1;
+  let finishReason: string | null | undefined;
+  let usage: OpenAIUsage = {};
+
+  const closeBlock = () => {
+    if (openBlock) {
+      send("content_block_stop", { type: "content_block_stop", index: blockIndex });
+      openBlock = null;
+    }
+  };
+
+  for await (const data of readSSE(body)) {
+    if (data === "[DONE]") break;
+
+    let chunk: OpenAIStreamChunk;
+    try {
+      chunk = JSON.parse(data) as OpenAIStreamChunk;
+    } catch {
+      continue;
+    }
+
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+
+    const delta = choice.delta;
+    if (delta?.content) {
+      if (openBlock !== "text") {
+        closeBlock();
+        blockIndex++;
+        openBlock = "text";
+        send("content_block_start", {
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: { type: "text", text: "" },
+        });
+      }
+      send("content_block_delta", {
+        type: "content_block_delta",
+        index: blockIndex,
+        delta: { type: "text_delta", text: delta.content },
+      });
+    }
+
+    for (const call of delta?.tool_calls || []) {
+      if (openBlock !== "tool" || call.index !== currentToolCall) {
+        closeBlock();
+        blockIndex++;
+        openBlock = "tool";
+        currentToolCall = call.index;
+        send("content_block_start", {
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: {
+            type: "tool_use",
+            id: call.id || `toolu_${Date.now()}_${call.index}`,
+            name: call.function?.name ?? "",
+            input: {},
+          },
+        });
+      }
+      if (call.function?.arguments) {
+        send("content_block_delta", {
+          type: "content_block_delta",
+          index: blockIndex,
+          delta: { type: "input_json_delta", partial_json: call.function.arguments },
+        });
+      }
+    }
+  }
+
+  closeBlock();
+
+  send("message_delta", {
+    type: "message_delta",
+    delta: { stop_reason: mapStopReason(finishReason), stop_sequence: null },
+    usage: {
+      input_tokens: usage.prompt_tokens ?? 0,
+      output_tokens: usage.completion_tokens ?? 0,
+    },
+  });
+  send("message_stop", { type: "message_stop" });
+  res.end();
+}
+
+function errorType(status: number): string {
+  if (status === 400) return "invalid_request_error";
+  if (status === 401) return "authentication_error";
+  if (status === 403) return "permission_error";
+  if (status === 404) return "not_found_error";
+  if (status === 429) return "rate_limit_error";
+  return "api_error";
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify({ type: "error", error: { type: errorType(status), message } }));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function handleMessages(
+  req: IncomingMessage,
+  res: ServerResponse,
+  config: ProxyConfig,
+  options: ProxyOptions
+): Promise<number> {
+  let anthropicReq: AnthropicRequest;
+  try {
+    anthropicReq = JSON.parse(await readBody(req)) as AnthropicRequest;
+  } catch {
+    sendError(res, 400, "request body is not valid JSON");
+    return 400;
+  }
+  if (typeof anthropicReq !== "object" || anthropicReq === null || !Array.isArray(anthropicReq.messages)) {
+    sendError(res, 400, "request body must be an object with a messages array");
+    return 400;
+  }
+
+  let body: string;
+  try {
+    body = JSON.stringify(toOpenAIRequest(anthropicReq, config));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    sendError(res, 400, `could not translate request: ${message}`);
+    return 400;
+  }
+
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (options.apiKey) headers.authorization = `Bearer ${options.apiKey}`;
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    sendError(res, 502, `upstream ${config.baseUrl} unreachable: ${message}`);
+    return 502;
+  }
+
+  if (!upstream.ok) {
+    const text = await upstream.text();
+    sendError(res, upstream.status, text || upstream.statusText);
+    return upstream.status;
+  }
+
+  if (anthropicReq.stream && upstream.body) {
+    await streamToAnthropic(upstream.body, res, anthropicReq.model);
+    return 200;
+  }
+
+  const json = (await upstream.json()) as OpenAIResponse;
+  res.writeHead(200, { "content-type": "application/json" });
+  res.end(JSON.stringify(toAnthropicResponse(json, anthropicReq.model)));
+  return 200;
+}
+
+// Start a local server that speaks the Anthropic Messages API and forwards to
+// an OpenAI-compatible Chat Completions endpoint
+export async function startProxy(config: ProxyConfig, options: ProxyOptions = {}): Promise<ProxyServer> {
+  const server = createServer(async (req, res) => {
+    const started = Date.now();
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    let status = 404;
+
+    try {
+      if (req.method === "POST" && path === "/v1/messages") {
+        status = await handleMessages(req, res, config, options);
+      } else if (req.method === "POST" && path === "/v1/messages/count_tokens") {
+        // No tokenizer for arbitrary upstream models, so approximate
+        const body = await readBody(req);
+        status = 200;
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ input_tokens: Math.ceil(body.length / 4) }));
+      } else if (req.method === "GET" || req.method === "HEAD") {
+        status = 200;
+        res.writeHead(200, { "content-type": "text/plain" });
+        res.end("coderouter proxy\n");
+      } else {
+        sendError(res, 404, `${req.method} ${path} is not supported by the coderouter proxy`);
+      }
+    } catch (err) {
+      status = 500;
+      const message = err instanceof Error ? err.message : String(err);
+      if (!res.headersSent) sendError(res, 500, message);
+      else res.end();
+    }
+
+    options.log?.(`${req.method} ${path} -> ${status} (${Date.now() - started}ms)`);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => resolve());
+  });
+
+  if (options.unref) server.unref();
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+// Upstream API key, from saved auth or the environment
+export async function getProxyApiKey(target: string, config: ProxyConfig): Promise<string | undefined> {
+  if (!config.apiKeyEnv) return undefined;
+  const auth = await getAuth(target);
+  return auth[config.apiKeyEnv] || process.env[config.apiKeyEnv] || undefined;
+}
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+// `cr proxy <target>` or `cr proxy --upstream <url>`: run the proxy in the foreground
+export async function runProxyCommand(args: string[]): Promise<void> {
+  const port = Number(flagValue(args, "--port") ?? DEFAULT_PROXY_PORT);
+  const upstream = flagValue(args, "--upstream");
+  let config: ProxyConfig | undefined;
+  let target = "proxy";
+
+  if (upstream) {
+    config = {
+      baseUrl: upstream,
+      model: flagValue(args, "--model"),
+      apiKeyEnv: flagValue(args, "--api-key-env"),
+    };
+  } else if (args[0] && !args[0].startsWith("-")) {
+    target = args[0];
+    const [scaffold, ...rest] = target.split(".");
+    const v = scaffold === "claude" && rest.length > 0 ? await getVariant("claude", rest.join(".")) : undefined;
+    if (!v?.proxy) {
+      console.error(`\x1b[31mno proxy configured for:\x1b[0m ${target}`);
+      console.error("the variant needs a \x1b[36mproxy\x1b[0m section, e.g. cr proxy claude.ollama");
+      process.exit(1);
+    }
+    config = v.proxy;
+  }
+
+  if (!config || !Number.isInteger(port)) {
+    console.error("usage: cr proxy <variant> [--port N]");
+    console.error("       cr proxy --upstream <url> [--model M] [--api-key-env VAR] [--port N]");
+    process.exit(1);
+  }
+
+  const apiKey = await getProxyApiKey(target, config);
+  const proxy = await startProxy(config, {
+    port,
+    apiKey,
+    log: (line) => console.log(`\x1b[90m[cr]\x1b[0m ${line}`),
+  });
+
+  console.log(`\x1b[90m[cr]\x1b[0m proxy ${proxy.url} -> ${config.baseUrl}`);
+  console.log();
+  console.log(`  ANTHROPIC_BASE_URL=${proxy.url}`);
+  console.log();
+}
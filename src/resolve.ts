@@ -0,0 +1,170 @@
+import { getVariantChain, mergeVariantLayers, ensureConfigHome, configHomeDir, getAuth, getAuthRefs, loadConfig } from "./config.ts";
+import { interpolateEnv, type InterpolationSources } from "./interpolate.ts";
+import { DEFAULT_PROVIDER, mergeCatalog, resolveModel, lookupModel, modelSetting } from "./models.ts";
+import { startProxy, getProxyApiKey, DEFAULT_PROXY_PORT } from "./proxy.ts";
+import { isScaffold, CONFIG_HOME_ENV, ISOLATED_BY_DEFAULT } from "./presets.ts";
+import type { Scaffold, ResolvedTarget, ConfigHome, VariantTrace } from "./types.ts";
+
+export function parseTarget(input: string): { scaffold: Scaffold; variant: string | null } | null {
+  const parts = input.split(".");
+  const scaffold = parts[0] ?? "";
+
+  if (!isScaffold(scaffold)) {
+    return null;
+  }
+
+  const variant = parts.length > 1 ? parts.slice(1).join(".") : null;
+  return { scaffold, variant };
+}
+
+export interface ResolveOptions {
+  // Don't start proxies or create config homes (explain, env export)
+  dryRun?: boolean;
+  // Point at DRY_RUN_PROXY_URL instead of starting the proxy (env export)
+  skipProxy?: boolean;
+  // Filled with the origin of every env value and default arg
+  trace?: VariantTrace;
+  // Catalog alias or model ID to run with (--cr-model)
+  model?: string;
+}
+
+// Placeholder for the proxy URL when nothing is started
+export const DRY_RUN_PROXY_URL = `http://127.0.0.1:${DEFAULT_PROXY_PORT}`;
+
+// Where ${...} references in variant env values are looked up. A dry run
+// doesn't resolve secret references; saved auth shows as a placeholder.
+function interpolationSources(
+  fullTarget: string,
+  scaffold: Scaffold,
+  provider: string | undefined,
+  dryRun: boolean
+): InterpolationSources {
+  let auth: Promise<Record<string, string>> | undefined;
+  return {
+    processEnv: process.env,
+    target: fullTarget,
+    async model(name) {
+      return lookupModel(name, scaffold, provider, await loadCatalog());
+    },
+    async auth(name) {
+      auth ||= dryRun ? getAuthRefs(fullTarget) : getAuth(fullTarget);
+      const value = (await auth)[name];
+      return value !== undefined && dryRun ? `<auth:${name}>` : value;
+    },
+  };
+}
+
+async function loadCatalog() {
+  return mergeCatalog((await loadConfig()).models);
+}
+
+export async function resolveTarget(
+  scaffold: Scaffold,
+  variant: string | null,
+  options: ResolveOptions = {}
+): Promise<ResolvedTarget | null> {
+  const env: Record<string, string> = {};
+  let defaultArgs: string[] = [];
+  let requiredEnvVars: string[] = [];
+  let configHome: boolean | ConfigHome = false;
+  let provider = DEFAULT_PROVIDER[scaffold];
+  let omoc = false;
+  const { trace } = options;
+
+  // Record a value coderouter sets itself
+  const setInternal = (key: string, value: string, reason: string) => {
+    env[key] = value;
+    if (trace) (trace.env[key] ||= []).push({ value, source: { kind: "coderouter", reason } });
+  };
+
+  if (variant) {
+    const layers = await getVariantChain(scaffold, variant);
+    if (!layers) {
+      return null; // variant not found
+    }
+    const v = mergeVariantLayers(variant, layers, trace);
+    omoc = layers.some((layer) => layer.source === "builtin" && layer.name === "opencode.omoc");
+    const fullTarget = `${scaffold}.${variant}`;
+    provider = v.provider ?? provider;
+    Object.assign(env, await interpolateEnv(v.env, interpolationSources(fullTarget, scaffold, provider, !!options.dryRun)));
+
+    // Explain shows the interpolated value along with what it was written as
+    for (const [key, template] of Object.entries(v.env)) {
+      const last = trace?.env[key]?.at(-1);
+      if (last && env[key] !== template) Object.assign(last, { value: env[key], template });
+    }
+    defaultArgs = v.defaultArgs || [];
+    requiredEnvVars = v.requiredEnvVars || [];
+    configHome = v.configHome ?? ISOLATED_BY_DEFAULT[scaffold];
+
+    if (v.proxy && scaffold === "claude") {
+      // Translate Anthropic Messages to an OpenAI-compatible endpoint locally
+      let url = DRY_RUN_PROXY_URL;
+      if (!options.dryRun && !options.skipProxy) {
+        const apiKey = await getProxyApiKey(fullTarget, v.proxy);
+        const proxy = await startProxy(v.proxy, { apiKey, unref: true });
+        url = proxy.url;
+      }
+      const reason = `proxy to ${v.proxy.baseUrl}`;
+      setInternal("ANTHROPIC_BASE_URL", url, reason);
+      // claude needs some credential to skip login; the proxy ignores it
+      if (env.ANTHROPIC_AUTH_TOKEN === undefined) setInternal("ANTHROPIC_AUTH_TOKEN", "coderouter-proxy", reason);
+      if (env.ANTHROPIC_API_KEY === undefined) setInternal("ANTHROPIC_API_KEY", "", reason);
+    }
+  } else if (scaffold === "opencode") {
+    // Plain opencode runs vanilla, without the user's plugins
+    configHome = true;
+  }
+
+  if (options.model) {
+    const setting = modelSetting(scaffold);
+    if (!setting) throw new Error(`--cr-model: ${scaffold} chooses its model itself`);
+    const id = resolveModel(options.model, scaffold, provider, await loadCatalog());
+
+    if (setting.kind === "env") {
+      env[setting.key] = id;
+      if (trace) (trace.env[setting.key] ||= []).push({ value: id, source: { kind: "command-line" } });
+    } else {
+      // codex applies -c overrides in order, so this one wins
+      defaultArgs = [...defaultArgs, "-c", `model="${id}"`];
+      if (trace) trace.args.push(...["-c", `model="${id}"`].map((value) => ({ value, source: { kind: "command-line" } as const })));
+    }
+  }
+
+  const homeEnv = CONFIG_HOME_ENV[scaffold];
+  if (configHome && env[homeEnv] === undefined) {
+    const name = variant ?? "vanilla";
+    const dir = options.dryRun
+      ? configHomeDir(scaffold, name, configHome)
+      : await ensureConfigHome(scaffold, name, configHome, omoc);
+    setInternal(homeEnv, dir, "isolated config home");
+  }
+
+  return {
+    scaffold,
+    variant,
+    command: scaffold,
+    env,
+    defaultArgs,
+    requiredEnvVars,
+    provider,
+  };
+}
+
+export async function checkRequiredEnvVars(target: ResolvedTarget): Promise<string[]> {
+  const missing: string[] = [];
+
+  // Get auth for this target (uses glob matching)
+  const fullTarget = target.variant
+    ? `${target.scaffold}.${target.variant}`
+    : target.scaffold;
+  const auth = await getAuth(fullTarget);
+
+  for (const key of target.requiredEnvVars) {
+    // Check process.env first, then saved auth, then the variant (--cr-env)
+    if (target.unsetEnv?.includes(key) || (!process.env[key] && !auth[key] && !target.env[key])) {
+      missing.push(key);
+    }
+  }
+  return missing;
+}
@@ -0,0 +1,111 @@
+import { loadConfig } from "./config.ts";
+import { parseTarget, resolveTarget, checkRequiredEnvVars } from "./resolve.ts";
+import { runTarget, type RunResult } from "./runner.ts";
+import { explainRoute, printRouteExplanation } from "./explain.ts";
+import { applyRunOverrides, type RunOverrides } from "./flags.ts";
+import type { RouteConfig, ResolvedTarget } from "./types.ts";
+
+// Stderr output that means the provider, not the task, failed
+const FAILOVER_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /rate[ _-]?limit|too many requests|\b429\b/i, reason: "rate limited" },
+  { pattern: /overloaded|\b529\b/i, reason: "overloaded" },
+  { pattern: /quota|insufficient[ _]balance|billing/i, reason: "quota exceeded" },
+  { pattern: /unauthori[sz]ed|authentication[ _]error|invalid (api[ _-]?key|x-api-key|token)|\b401\b/i, reason: "auth error" },
+];
+
+// Look up a route by name, normalizing the array shorthand
+export async function getRoute(name: string): Promise<RouteConfig | undefined> {
+  const config = await loadConfig();
+  const route = config.routes?.[name];
+  if (!route) return undefined;
+  return Array.isArray(route) ? { variants: route } : route;
+}
+
+// Why a finished run should fail over to the next hop, or null if it shouldn't
+function failoverReason(route: RouteConfig, result: RunResult): string | null {
+  if (!result.launched) return "failed to launch";
+  if (result.code === 0) return null;
+
+  if (route.failoverExitCodes?.includes(result.code)) {
+    return `exit code ${result.code}`;
+  }
+
+  // Only trust stderr when the run actually failed; scaffolds log and retry
+  // transient errors on their own
+  for (const { pattern, reason } of FAILOVER_PATTERNS) {
+    if (pattern.test(result.stderr)) return reason;
+  }
+  for (const source of route.failoverPatterns || []) {
+    if (new RegExp(source, "i").test(result.stderr)) return `matched /${source}/`;
+  }
+
+  return null;
+}
+
+function log(message: string): void {
+  console.error(`\x1b[90m[cr]\x1b[0m ${message}`);
+}
+
+// Run each variant in the route until one doesn't fail for provider reasons
+export async function runRoute(
+  name: string,
+  route: RouteConfig,
+  args: string[],
+  overrides?: RunOverrides
+): Promise<number> {
+  if (overrides?.dryRun) {
+    printRouteExplanation(name, await explainRoute(route, args, overrides));
+    return 0;
+  }
+
+  const hops = route.variants;
+  let lastCode = 1;
+
+  for (let i = 0; i < hops.length; i++) {
+    const hop = hops[i]!;
+    const next = hops[i + 1];
+    const skip = (reason: string) => {
+      log(`route ${name}: ${hop} ${reason}${next ? `, trying ${next}` : ""}`);
+    };
+
+    const parsed = parseTarget(hop);
+    let target: ResolvedTarget | null;
+    try {
+      target = parsed ? await resolveTarget(parsed.scaffold, parsed.variant, { model: overrides?.model }) : null;
+      if (target && overrides) applyRunOverrides(target, overrides);
+    } catch (err) {
+      skip(`can't be used (${(err as Error).message})`);
+      continue;
+    }
+    if (!target) {
+      skip("is not a known variant");
+      continue;
+    }
+    let missing: string[];
+    try {
+      missing = await checkRequiredEnvVars(target);
+    } catch (err) {
+      skip(`has unusable auth (${(err as Error).message})`);
+      continue;
+    }
+    if (missing.length > 0) {
+      skip(`is missing ${missing.join(", ")}`);
+      continue;
+    }
+
+    const result = await runTarget(target, args, { captureStderr: true, route: name, quiet: overrides?.quiet });
+    lastCode = result.code;
+
+    const reason = failoverReason(route, result);
+    if (reason) {
+      skip(`failed (${reason})`);
+      continue;
+    }
+
+    log(`route ${name}: finished on ${hop} (hop ${i + 1}/${hops.length})`);
+    return result.code;
+  }
+
+  log(`route ${name}: all ${hops.length} variants failed`);
+  return lastCode || 1;
+}
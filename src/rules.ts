@@ -0,0 +1,201 @@
+import { access } from "node:fs/promises";
+import { join } from "node:path";
+import { loadConfigLayers } from "./config.ts";
+import { git } from "./history.ts";
+import { expandHome } from "./secrets.ts";
+import type { RoutingRule } from "./types.ts";
+
+// `cr run` and `cr .` take their target from the `rules` in config: the first
+// rule whose conditions all hold wins. Rules from .coderouter.json are tried
+// before the user config's, which are tried before presets'.
+
+// What rules are matched against
+export interface RuleContext {
+  cwd: string;
+  // Top of the git repo, or null outside one
+  root: string | null;
+  // Fetch URLs of every remote
+  remotes: string[];
+  now: Date;
+  interactive: boolean;
+}
+
+export interface RuleCheck {
+  matched: boolean;
+  // e.g. "cwd matches ~/clients/**"
+  detail: string;
+}
+
+export interface RuleResult {
+  name: string;
+  target: string;
+  // Config file the rule is in
+  file: string;
+  matched: boolean;
+  checks: RuleCheck[];
+}
+
+export interface RuleSelection {
+  // The rules tried, ending with the match if there is one
+  tried: RuleResult[];
+  match: RuleResult | null;
+}
+
+// -p/--print means a one-shot run for every scaffold that has a print mode
+export function isInteractive(args: string[]): boolean {
+  if (args.includes("-p") || args.includes("--print")) return false;
+  return !!process.stdin.isTTY && !!process.stdout.isTTY;
+}
+
+export async function ruleContext(args: string[], cwd: string = process.cwd()): Promise<RuleContext> {
+  const root = await git(cwd, ["rev-parse", "--show-toplevel"]);
+  const remoteLines = root ? await git(cwd, ["remote", "-v"]) : null;
+  const remotes = (remoteLines ?? "")
+    .split("\n")
+    .filter((line) => line.endsWith("(fetch)"))
+    .map((line) => line.split(/\s+/)[1]!);
+  return { cwd, root, remotes, now: new Date(), interactive: isInteractive(args) };
+}
+
+// `*` stays within a path segment unless `anything` is set; `**` never does
+function globToRegExp(pattern: string, anything: boolean): string {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += anything ? ".*" : "[^/]*";
+    } else if (char === "?") {
+      source += anything ? "." : "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+// A directory glob matches the directory and everything below it
+function matchesDir(dir: string, pattern: string): boolean {
+  const expanded = expandHome(pattern).replace(/\/+$/, "");
+  return new RegExp(`^${globToRegExp(expanded, false)}(?:/.*)?$`).test(dir);
+}
+
+// Remote URLs mix : and /, so * matches anything there
+function matchesRemote(url: string, pattern: string): boolean {
+  return new RegExp(`^${globToRegExp(pattern, true)}$`).test(url);
+}
+
+function minutes(time: string): number {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours! * 60 + mins!;
+}
+
+// "22:00-06:00" wraps midnight; the end is exclusive
+function inTimeRange(now: Date, range: string): boolean {
+  const [start, end] = range.split("-").map(minutes);
+  const current = now.getHours() * 60 + now.getMinutes();
+  return start! <= end! ? current >= start! && current < end! : current >= start! || current < end!;
+}
+
+function list(value: string | string[] | undefined): string[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+async function exists(path: string): Promise<boolean> {
+  return access(path).then(
+    () => true,
+    () => false
+  );
+}
+
+// Check every condition of a rule, so explain can say why it did or didn't match
+export async function checkRule(rule: RoutingRule, context: RuleContext): Promise<RuleCheck[]> {
+  const checks: RuleCheck[] = [];
+
+  const dirs = list(rule.cwd);
+  if (dirs) {
+    const hit = dirs.find((pattern) => matchesDir(context.cwd, pattern));
+    checks.push(
+      hit
+        ? { matched: true, detail: `cwd matches ${hit}` }
+        : { matched: false, detail: `cwd ${context.cwd} doesn't match ${dirs.join(", ")}` }
+    );
+  }
+
+  const remotes = list(rule.remote);
+  if (remotes) {
+    let hit: { url: string; pattern: string } | undefined;
+    for (const url of context.remotes) {
+      const pattern = remotes.find((p) => matchesRemote(url, p));
+      if (pattern) {
+        hit = { url, pattern };
+        break;
+      }
+    }
+    checks.push(
+      hit
+        ? { matched: true, detail: `remote ${hit.url} matches ${hit.pattern}` }
+        : {
+            matched: false,
+            detail: context.root
+              ? `no remote matches ${remotes.join(", ")}`
+              : `not in a git repo (remote ${remotes.join(", ")})`,
+          }
+    );
+  }
+
+  const files = list(rule.files);
+  if (files) {
+    const base = context.root ?? context.cwd;
+    const missing: string[] = [];
+    for (const file of files) {
+      if (!(await exists(join(base, file)))) missing.push(file);
+    }
+    checks.push(
+      missing.length === 0
+        ? { matched: true, detail: `has ${files.join(", ")}` }
+        : { matched: false, detail: `no ${missing.join(", ")} in ${base}` }
+    );
+  }
+
+  if (rule.time !== undefined) {
+    const now = `${String(context.now.getHours()).padStart(2, "0")}:${String(context.now.getMinutes()).padStart(2, "0")}`;
+    const inside = inTimeRange(context.now, rule.time);
+    checks.push({ matched: inside, detail: `time ${now} is ${inside ? "within" : "outside"} ${rule.time}` });
+  }
+
+  if (rule.interactive !== undefined) {
+    checks.push({
+      matched: rule.interactive === context.interactive,
+      detail: `run is ${context.interactive ? "interactive" : "non-interactive"}`,
+    });
+  }
+
+  return checks;
+}
+
+// Try the configured rules in order and stop at the first match
+export async function selectRule(args: string[], cwd?: string): Promise<RuleSelection> {
+  const layers = await loadConfigLayers();
+  const context = await ruleContext(args, cwd);
+  const tried: RuleResult[] = [];
+
+  // Later layers take priority, so their rules go first
+  for (const layer of [...layers].reverse()) {
+    for (const [index, rule] of (layer.config.rules || []).entries()) {
+      const checks = await checkRule(rule, context);
+      const result: RuleResult = {
+        name: rule.name ?? `rules[${index}]`,
+        target: rule.target,
+        file: layer.path,
+        matched: checks.every((check) => check.matched),
+        checks,
+      };
+      tried.push(result);
+      if (result.matched) return { tried, match: result };
+    }
+  }
+  return { tried, match: null };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, test } from "bun:test";
+import { runTarget } from "./runner.ts";
+import type { ResolvedTarget } from "./types.ts";
+
+function shell(script: string): ResolvedTarget {
+  return { scaffold: "claude", variant: null, command: "sh", env: {}, defaultArgs: ["-c", script], requiredEnvVars: [] };
+}
+
+describe("runTarget exit codes", () => {
+  test("passes a normal exit code through", async () => {
+    expect((await runTarget(shell("exit 3"), [], { quiet: true })).code).toBe(3);
+  });
+
+  test("reports a child killed by a signal as 128 + the signal number", async () => {
+    expect((await runTarget(shell("kill -KILL $$"), [], { quiet: true })).code).toBe(137);
+    expect((await runTarget(shell("kill -INT $$"), [], { quiet: true })).code).toBe(130);
+  });
+
+  test("reports cr's own timeout as 124", async () => {
+    const result = await runTarget(shell("exec sleep 10"), [], { quiet: true, timeoutMs: 100 });
+    expect(result).toMatchObject({ code: 124, timedOut: true });
+  });
+});
@@ -1,6 +1,10 @@
 import { spawn } from "node:child_process";
+import { open } from "node:fs/promises";
+import { constants } from "node:os";
 import type { ResolvedTarget, Scaffold } from "./types.ts";
 import { getAuth } from "./config.ts";
+import { CONFIG_HOME_ENV } from "./presets.ts";
+import { recordRun, gitInfo } from "./history.ts";
 
 const SENSITIVE_PATTERNS = [
   /token/i,
@@ -12,7 +16,7 @@ const SENSITIVE_PATTERNS = [
 ];
 
 // Env vars to show from user's environment (if they exist)
-const PASSTHROUGH_VARS: Record<Scaffold, string[]> = {
+export const PASSTHROUGH_VARS: Record<Scaffold, string[]> = {
   claude: [
     "AWS_BEARER_TOKEN_BEDROCK",
     "AWS_ACCESS_KEY_ID",
@@ -25,15 +29,15 @@ const PASSTHROUGH_VARS: Record<Scaffold, string[]> = {
     "ANTHROPIC_FOUNDRY_API_KEY",
   ],
   opencode: [],
-  codex: ["OPENAI_API_KEY"],
-  gemini: ["GEMINI_API_KEY"],
+  codex: ["OPENAI_API_KEY", "OPENROUTER_API_KEY", "CODEX_HOME"],
+  gemini: ["GEMINI_API_KEY", "GOOGLE_API_KEY", "GOOGLE_CLOUD_PROJECT", "GOOGLE_APPLICATION_CREDENTIALS"],
 };
 
-function isSensitive(key: string): boolean {
+export function isSensitive(key: string): boolean {
   return SENSITIVE_PATTERNS.some((p) => p.test(key));
 }
 
-function redact(key: string, value: string): string {
+export function redact(key: string, value: string): string {
   if (isSensitive(key)) {
     if (value.length <= 8) return "***";
     return value.slice(0, 4) + "..." + value.slice(-4);
@@ -41,6 +45,21 @@ function redact(key: string, value: string): string {
   return value;
 }
 
+// Mask values passed as `--api-key X`, `--token=X` or `-c api_key="X"`
+export function redactArgs(args: string[]): string[] {
+  return args.map((arg, i) => {
+    const assignment = arg.match(/^(-{0,2}[\w.-]+)=([\s\S]*)$/);
+    if (assignment && isSensitive(assignment[1]!)) {
+      return `${assignment[1]}=${redact(assignment[1]!, assignment[2]!)}`;
+    }
+    const prev = args[i - 1];
+    if (prev && /^--?[\w-]+$/.test(prev) && isSensitive(prev)) {
+      return redact(prev, arg);
+    }
+    return arg;
+  });
+}
+
 function logEnvVars(
   injected: Record<string, string>,
   scaffold: Scaffold
@@ -76,33 +95,148 @@ function logEnvVars(
   console.log();
 }
 
-export async function run(target: ResolvedTarget, args: string[]): Promise<number> {
+export interface RunOptions {
+  // Tee the child's stderr so the caller can inspect it (route failover)
+  captureStderr?: boolean;
+  // Recorded in the history journal when the run is a route hop
+  route?: string;
+  // Skip the [cr] env summary (--cr-quiet)
+  quiet?: boolean;
+  // Run in this directory instead of the current one
+  cwd?: string;
+  // Send stdout and stderr to this file instead of the terminal, with stdin
+  // closed; for unattended runs (cr fanout, cr batch)
+  logFile?: string;
+  // Stop the command after this long: SIGTERM, then SIGKILL if it lingers
+  timeoutMs?: number;
+}
+
+export interface RunResult {
+  code: number;
+  // false if the command could not be spawned at all
+  launched: boolean;
+  // Tail of the child's stderr, when captured
+  stderr: string;
+  // Stopped because it ran past options.timeoutMs
+  timedOut?: boolean;
+}
+
+// Keep only the end of captured stderr; errors are printed last
+const STDERR_TAIL_BYTES = 64 * 1024;
+
+// Time a timed-out command gets to exit after SIGTERM
+const KILL_GRACE_MS = 10_000;
+
+// Everything coderouter adds on top of the caller's environment
+export async function injectedEnv(target: ResolvedTarget): Promise<Record<string, string>> {
   // Get auth credentials for this target (uses glob matching)
   const fullTarget = target.variant
     ? `${target.scaffold}.${target.variant}`
     : target.scaffold;
   const auth = await getAuth(fullTarget);
 
-  logEnvVars(target.env, target.scaffold);
+  return {
+    ...auth, // Inject auth credentials
+    ...target.env,
+  };
+}
+
+// Shell convention: 124 when cr timed the command out, 128 + the signal
+// number when something else killed it (the OOM killer, Ctrl-C)
+function exitStatus(code: number | null, signal: NodeJS.Signals | null, timedOut: boolean): number {
+  if (code !== null) return code;
+  if (timedOut) return 124;
+  return signal ? 128 + (constants.signals[signal] ?? 0) : 1;
+}
+
+export async function runTarget(
+  target: ResolvedTarget,
+  args: string[],
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const injected = await injectedEnv(target);
+
+  if (!options.quiet) logEnvVars(target.env, target.scaffold);
 
   const env = {
     ...process.env,
-    ...auth, // Inject auth credentials
-    ...target.env,
+    ...injected,
   };
+  for (const key of target.unsetEnv || []) delete env[key];
 
   const finalArgs = [...target.defaultArgs, ...args];
-
-  return new Promise((resolve) => {
+  const cwd = options.cwd ?? process.cwd();
+  const git = gitInfo(cwd);
+  const log = options.logFile ? await open(options.logFile, "a") : null;
+  const started = new Date();
+  let exitCode: number | null = null;
+  let signal: string | null = null;
+
+  const result = await new Promise<RunResult>((resolve) => {
     const proc = spawn(target.command, finalArgs, {
       env,
-      stdio: "inherit",
+      cwd,
+      stdio: log
+        ? ["ignore", log.fd, log.fd]
+        : options.captureStderr
+          ? ["inherit", "inherit", "pipe"]
+          : "inherit",
     });
 
-    proc.on("close", (code) => resolve(code ?? 0));
+    let timedOut = false;
+    const timers: Array<ReturnType<typeof setTimeout>> = [];
+    if (options.timeoutMs !== undefined) {
+      timers.push(
+        setTimeout(() => {
+          timedOut = true;
+          proc.kill("SIGTERM");
+          timers.push(setTimeout(() => proc.kill("SIGKILL"), KILL_GRACE_MS));
+        }, options.timeoutMs)
+      );
+    }
+
+    let stderr = "";
+    proc.stderr?.on("data", (chunk: Buffer) => {
+      process.stderr.write(chunk);
+      stderr = (stderr + chunk.toString("utf-8")).slice(-STDERR_TAIL_BYTES);
+    });
+
+    proc.on("close", (code, sig) => {
+      timers.forEach(clearTimeout);
+      exitCode = code;
+      signal = sig;
+      resolve({ code: exitStatus(code, sig, timedOut), launched: true, stderr, ...(timedOut ? { timedOut } : {}) });
+    });
     proc.on("error", (err) => {
+      timers.forEach(clearTimeout);
       console.error(`\x1b[31mfailed to execute ${target.command}:\x1b[0m ${err.message}`);
-      resolve(1);
+      resolve({ code: 1, launched: false, stderr });
     });
   });
+  await log?.close();
+
+  const ended = new Date();
+  await recordRun({
+    target: target.variant ? `${target.scaffold}.${target.variant}` : target.scaffold,
+    scaffold: target.scaffold,
+    variant: target.variant,
+    ...(options.route ? { route: options.route } : {}),
+    cwd,
+    ...(await git),
+    args: redactArgs(finalArgs),
+    start: started.toISOString(),
+    end: ended.toISOString(),
+    durationMs: ended.getTime() - started.getTime(),
+    exitCode,
+    signal,
+    launched: result.launched,
+    configHome: env[CONFIG_HOME_ENV[target.scaffold]] ?? null,
+  });
+
+  return result;
+}
+
+export async function run(target: ResolvedTarget, args: string[], options: RunOptions = {}): Promise<number> {
+  const result = await runTarget(target, args, options);
+  return result.code;
 }
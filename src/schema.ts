@@ -0,0 +1,314 @@
+import { SCAFFOLDS } from "./presets.ts";
+import type { JsonPath } from "./json.ts";
+
+// JSON Schema for config.json and .coderouter.json. Published with the
+// package as dist/config.schema.json for editor completion, and used by
+// validateConfig so the two can't drift apart.
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: { pattern: string };
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+  definitions?: Record<string, JsonSchema>;
+}
+
+export const SCHEMA_URL = "https://unpkg.com/coderouter/dist/config.schema.json";
+
+const VARIANT_NAME_PATTERN = `^(${SCAFFOLDS.join("|")})(\\.[^.]+)*$`;
+
+const stringArray: JsonSchema = { type: "array", items: { type: "string" } };
+const stringMap: JsonSchema = { type: "object", additionalProperties: { type: "string" } };
+
+const variantSchema: JsonSchema = {
+  type: "object",
+  description: "A variant, optionally extending a builtin or another user variant",
+  properties: {
+    extends: { type: "string", description: "Variant to build on, e.g. claude.aws" },
+    description: { type: "string" },
+    env: { ...stringMap, description: "Env vars merged over the base variant's" },
+    unset: { ...stringArray, description: "Inherited env vars to drop" },
+    defaultArgs: { ...stringArray, description: "Args passed before the command line args" },
+    argsMerge: {
+      enum: ["append", "prepend", "replace"],
+      description: "How defaultArgs combine with the base's (default: replace)",
+    },
+    requiredEnvVars: { ...stringArray, description: "Env vars that must be set in the shell or with cr auth" },
+    proxy: {
+      type: "object",
+      description: "Run claude through a local Anthropic-to-OpenAI proxy",
+      properties: {
+        baseUrl: { type: "string", minLength: 1, description: "OpenAI-compatible endpoint, e.g. http://localhost:11434/v1" },
+        apiKeyEnv: { type: "string", description: "Env var holding the upstream API key" },
+        model: { type: "string", description: "Model to request instead of the one claude asks for" },
+      },
+      required: ["baseUrl"],
+      additionalProperties: false,
+    },
+    provider: {
+      type: "string",
+      minLength: 1,
+      description: "Model catalog provider for --cr-model and ${model:NAME}, e.g. bedrock (see cr models)",
+    },
+    configHome: {
+      description: "Run with an isolated config directory",
+      anyOf: [
+        { type: "boolean" },
+        {
+          type: "object",
+          properties: {
+            subdir: { type: "string", description: "Directory under the coderouter config dir" },
+            seed: { type: "string", description: "Template directory copied in on first use" },
+          },
+          additionalProperties: false,
+        },
+      ],
+    },
+  },
+  additionalProperties: false,
+};
+
+const routeSchema: JsonSchema = {
+  anyOf: [
+    { ...stringArray, description: "Variants to try in order" },
+    {
+      type: "object",
+      properties: {
+        variants: stringArray,
+        failoverExitCodes: { type: "array", items: { type: "integer" } },
+        failoverPatterns: { ...stringArray, description: "Regexes matched against stderr" },
+      },
+      required: ["variants"],
+      additionalProperties: false,
+    },
+  ],
+};
+
+const stringOrArray: JsonSchema = { anyOf: [{ type: "string" }, stringArray] };
+
+const ruleSchema: JsonSchema = {
+  type: "object",
+  description: "Picks the target for cr run when all of its conditions hold",
+  properties: {
+    name: { type: "string" },
+    target: { type: "string", minLength: 1, description: "Variant or route to run" },
+    cwd: { ...stringOrArray, description: "Directory globs, e.g. ~/clients/**; subdirectories match too" },
+    remote: { ...stringOrArray, description: "Git remote URL globs, e.g. *github.com*acme-clients/*" },
+    files: { ...stringOrArray, description: "Paths that must all exist in the repo, e.g. Cargo.toml" },
+    time: {
+      type: "string",
+      pattern: "^([01]\\d|2[0-3]):[0-5]\\d-([01]\\d|2[0-3]):[0-5]\\d$",
+      description: "Local time range, e.g. 09:00-18:00",
+    },
+    interactive: { type: "boolean", description: "false matches -p/--print runs and runs without a terminal" },
+  },
+  required: ["target"],
+  additionalProperties: false,
+};
+
+const priceSchema: JsonSchema = {
+  type: "object",
+  description: "USD per million tokens",
+  properties: {
+    input: { type: "number", minimum: 0 },
+    output: { type: "number", minimum: 0 },
+    cacheWrite: { type: "number", minimum: 0 },
+    cacheRead: { type: "number", minimum: 0 },
+  },
+  required: ["input", "output"],
+  additionalProperties: false,
+};
+
+const modelSchema: JsonSchema = {
+  type: "object",
+  description: "A model alias and its ID per provider",
+  properties: {
+    description: { type: "string" },
+    scaffolds: {
+      type: "array",
+      items: { type: "string", enum: SCAFFOLDS },
+      description: "Scaffolds that can run the model, e.g. claude; any when unset",
+    },
+    ids: { ...stringMap, description: "Model ID keyed by provider, e.g. bedrock" },
+  },
+  required: ["ids"],
+  additionalProperties: false,
+};
+
+export const CONFIG_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: SCHEMA_URL,
+  title: "coderouter config",
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    schemaVersion: { type: "integer", minimum: 0, description: "Config format version; managed by coderouter" },
+    variants: {
+      type: "object",
+      description: "User variants keyed by full name, e.g. claude.aws.sonnet",
+      propertyNames: { pattern: VARIANT_NAME_PATTERN },
+      additionalProperties: variantSchema,
+    },
+    auth: {
+      type: "object",
+      description: "Credentials keyed by target glob, e.g. claude.glm*. Values may be env:, file: or cmd: references",
+      additionalProperties: stringMap,
+    },
+    routes: {
+      type: "object",
+      description: "Named fallback chains",
+      additionalProperties: routeSchema,
+    },
+    pricing: {
+      type: "object",
+      description: "Model prices for cr usage, keyed by model ID",
+      additionalProperties: priceSchema,
+    },
+    models: {
+      type: "object",
+      description: "Model aliases for --cr-model and ${model:NAME}, merged over the builtin catalog",
+      additionalProperties: modelSchema,
+    },
+    rules: {
+      type: "array",
+      description: "Rules for cr run and cr ., tried in order; project rules come first",
+      items: ruleSchema,
+    },
+    trustedProjects: {
+      ...stringArray,
+      description: "Directories whose .coderouter.json may change variants that use your saved auth (user config only)",
+    },
+  },
+  additionalProperties: false,
+};
+
+export interface SchemaIssue {
+  path: JsonPath;
+  message: string;
+  // The problem is the property name, not its value
+  atKey?: boolean;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+// Small edit distance, for "did you mean" on misspelled properties
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0]!;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]!;
+      row[j] = Math.min(row[j]! + 1, row[j - 1]! + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length]!;
+}
+
+function suggest(key: string, known: string[]): string {
+  const close = known.find((k) => distance(key.toLowerCase(), k.toLowerCase()) <= 2);
+  return close ? ` (did you mean "${close}"?)` : "";
+}
+
+// Validate a value against the subset of JSON Schema used above
+export function validateSchema(value: unknown, schema: JsonSchema, path: JsonPath = []): SchemaIssue[] {
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map((option) => validateSchema(value, option, path));
+    if (attempts.some((issues) => issues.length === 0)) return [];
+    // Report against the option with the right type, if any
+    const typed = schema.anyOf.findIndex((option) => !option.type || matchesType(value, option.type));
+    if (typed !== -1) return attempts[typed]!;
+    const types = schema.anyOf.map((option) => option.type).filter(Boolean);
+    return [{ path, message: `expected ${types.join(" or ")}, got ${typeOf(value)}` }];
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ path, message: `expected ${schema.type}, got ${typeOf(value)}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}` }];
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+    return [{ path, message: "must not be empty" }];
+  }
+
+  if (typeof value === "string" && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    return [{ path, message: `${JSON.stringify(value)} is not in the expected format (${schema.description ?? schema.pattern})` }];
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    return [{ path, message: `must be at least ${schema.minimum}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => issues.push(...validateSchema(item, schema.items!, [...path, index])));
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) issues.push({ path, message: `missing required property "${key}"` });
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      // In-memory configs may carry undefined fields that JSON would drop
+      if (child === undefined) continue;
+      const childPath = [...path, key];
+
+      if (schema.propertyNames && !new RegExp(schema.propertyNames.pattern).test(key)) {
+        issues.push({
+          path: childPath,
+          atKey: true,
+          message: `"${key}" must start with a scaffold (${SCAFFOLDS.join(", ")})`,
+        });
+        continue;
+      }
+
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        issues.push(...validateSchema(child, propertySchema, childPath));
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          path: childPath,
+          atKey: true,
+          message: `unknown property "${key}"${suggest(key, Object.keys(properties))}`,
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(...validateSchema(child, schema.additionalProperties, childPath));
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function validateConfig(value: unknown): SchemaIssue[] {
+  return validateSchema(value, CONFIG_SCHEMA);
+}
@@ -0,0 +1,87 @@
+import { spawn } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// Auth values can be references instead of plaintext secrets:
+//   env:OTHER_VAR                another environment variable
+//   file:~/.secrets/zai          contents of a file
+//   cmd:op read op://vault/key   stdout of a shell command
+const REF_PATTERN = /^(env|file|cmd):(.+)$/s;
+
+// Password manager CLIs may prompt for unlock, so be generous
+const CMD_TIMEOUT_MS = 60_000;
+
+// Each reference is resolved at most once per process
+const cache = new Map<string, Promise<string>>();
+
+export function isSecretRef(value: string): boolean {
+  return REF_PATTERN.test(value);
+}
+
+export function isCommandRef(value: string): boolean {
+  return value.startsWith("cmd:");
+}
+
+export function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return path;
+}
+
+function runCommand(command: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // stdin and stderr stay attached so the command can prompt for unlock
+    const proc = spawn("sh", ["-c", command], {
+      stdio: ["inherit", "pipe", "inherit"],
+      timeout: CMD_TIMEOUT_MS,
+    });
+
+    let stdout = "";
+    proc.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString("utf-8");
+    });
+
+    proc.on("error", (err) => reject(err));
+    proc.on("close", (code, signal) => {
+      if (signal) reject(new Error(`\`${command}\` was killed (${signal})`));
+      else if (code !== 0) reject(new Error(`\`${command}\` exited with code ${code}`));
+      else resolve(stdout);
+    });
+  });
+}
+
+async function resolveRef(scheme: string, rest: string): Promise<string> {
+  if (scheme === "env") {
+    const value = process.env[rest];
+    if (value === undefined) throw new Error(`environment variable ${rest} is not set`);
+    return value;
+  }
+
+  if (scheme === "file") {
+    const path = expandHome(rest);
+    try {
+      return (await readFile(path, "utf-8")).trim();
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      throw new Error(`cannot read ${path}${code ? ` (${code})` : ""}`);
+    }
+  }
+
+  const stdout = (await runCommand(rest)).trim();
+  if (!stdout) throw new Error(`\`${rest}\` printed nothing`);
+  return stdout;
+}
+
+// Resolve a possibly-referenced auth value to the secret itself
+export async function resolveSecret(value: string): Promise<string> {
+  const match = value.match(REF_PATTERN);
+  if (!match) return value;
+
+  let pending = cache.get(value);
+  if (!pending) {
+    pending = resolveRef(match[1]!, match[2]!);
+    cache.set(value, pending);
+  }
+  return pending;
+}
@@ -2,9 +2,12 @@ import * as p from "@clack/prompts";
 import { saveVariant } from "./config.ts";
 import type { Scaffold, UserVariant } from "./types.ts";
 import { builtinVariants, SCAFFOLDS } from "./presets.ts";
+import { modelId } from "./models.ts";
 
 interface ProviderTemplate {
   name: string;
+  provider: string; // model catalog column
+
   fields: Array<{
     key: string;
     label: string;
@@ -18,42 +21,47 @@ interface ProviderTemplate {
 const CLAUDE_PROVIDERS: Record<string, ProviderTemplate> = {
   aws: {
     name: "AWS Bedrock",
+    provider: "bedrock",
     fields: [
-      { key: "ANTHROPIC_MODEL", label: "Model", default: "us.anthropic.claude-sonnet-4-20250514-v1:0" },
-      { key: "ANTHROPIC_SMALL_FAST_MODEL", label: "Small/Fast Model", default: "us.anthropic.claude-haiku-4-5-20251001-v1:0" },
+      { key: "ANTHROPIC_MODEL", label: "Model", default: modelId("sonnet", "bedrock") },
+      { key: "ANTHROPIC_SMALL_FAST_MODEL", label: "Small/Fast Model", default: modelId("haiku", "bedrock") },
     ],
     staticEnv: { CLAUDE_CODE_USE_BEDROCK: "1" },
   },
   vertex: {
     name: "Google Cloud Vertex AI",
+    provider: "vertex",
     fields: [
       { key: "CLOUD_ML_REGION", label: "Region", default: "us-east5" },
-      { key: "ANTHROPIC_MODEL", label: "Model", default: "claude-sonnet-4@20250514" },
-      { key: "ANTHROPIC_SMALL_FAST_MODEL", label: "Small/Fast Model", default: "claude-haiku-4@20250514" },
+      { key: "ANTHROPIC_MODEL", label: "Model", default: modelId("sonnet", "vertex") },
+      { key: "ANTHROPIC_SMALL_FAST_MODEL", label: "Small/Fast Model", default: modelId("haiku", "vertex") },
     ],
     staticEnv: { CLAUDE_CODE_USE_VERTEX: "1" },
   },
   anthropic: {
     name: "Anthropic Direct",
+    provider: "anthropic",
     fields: [
       { key: "ANTHROPIC_API_KEY", label: "API Key", default: "", secret: true },
-      { key: "ANTHROPIC_MODEL", label: "Model", default: "claude-sonnet-4-20250514" },
+      { key: "ANTHROPIC_MODEL", label: "Model", default: modelId("sonnet", "anthropic") },
     ],
     staticEnv: {},
   },
   glm: {
     name: "Z.AI (GLM)",
+    provider: "zai",
     fields: [
       { key: "ANTHROPIC_API_KEY", label: "API Key", default: "", secret: true },
-      { key: "ANTHROPIC_MODEL", label: "Model", default: "glm-4-plus" },
+      { key: "ANTHROPIC_MODEL", label: "Model", default: modelId("glm", "zai") },
     ],
     staticEnv: { ANTHROPIC_BASE_URL: "https://open.z.ai/api/v1" },
   },
   openrouter: {
     name: "OpenRouter",
+    provider: "openrouter",
     fields: [
       { key: "OPENROUTER_API_KEY", label: "API Key", default: "", secret: true },
-      { key: "ANTHROPIC_MODEL", label: "Model", default: "anthropic/claude-sonnet-4" },
+      { key: "ANTHROPIC_MODEL", label: "Model", default: modelId("sonnet", "openrouter") },
     ],
     staticEnv: { ANTHROPIC_BASE_URL: "https://openrouter.ai/api/v1" },
   },
@@ -92,7 +100,13 @@ export async function runSetup(scaffold?: Scaffold, variantName?: string): Promi
   } else if (targetScaffold === "opencode") {
     await setupOpencode();
   } else if (targetScaffold === "codex") {
-    p.note("codex uses your ChatGPT login or OPENAI_API_KEY.\nNo additional setup needed.");
+    p.note(
+      "codex uses your ChatGPT login or OPENAI_API_KEY.\n" +
+      "Variants get their own CODEX_HOME under the coderouter config dir.\n\n" +
+      "  cr codex             -> your ~/.codex setup\n" +
+      "  cr codex.openai      -> OpenAI API key (cr auth codex.openai)\n" +
+      "  cr codex.high login  -> log in for a ChatGPT-based variant"
+    );
     p.outro("run with: cr codex");
   } else if (targetScaffold === "gemini") {
     await setupGemini(variantName);
@@ -114,7 +128,7 @@ async function setupClaude(suggestedVariant?: string): Promise<void> {
     process.exit(0);
   }
 
-  const template = CLAUDE_PROVIDERS[provider as string];
+  const template = CLAUDE_PROVIDERS[provider as string]!;
   const env: Record<string, string> = { ...template.staticEnv };
 
   for (const field of template.fields) {
@@ -136,6 +150,7 @@ async function setupClaude(suggestedVariant?: string): Promise<void> {
 
   const variant: UserVariant = {
     description: template.name,
+    provider: template.provider,
     env,
   };
 
@@ -173,8 +188,8 @@ async function setupGemini(suggestedVariant?: string): Promise<void> {
     message: "Select model",
     options: [
       { value: "", label: "default", hint: "uses GEMINI_MODEL or gemini default" },
-      { value: "pro", label: "pro", hint: "gemini-2.5-pro" },
-      { value: "flash", label: "flash", hint: "gemini-2.5-flash" },
+      { value: "pro", label: "pro", hint: modelId("gemini-pro", "gemini") },
+      { value: "flash", label: "flash", hint: modelId("gemini-flash", "gemini") },
     ],
     initialValue: suggestedVariant || "",
   });
@@ -187,8 +202,9 @@ async function setupGemini(suggestedVariant?: string): Promise<void> {
   if (model) {
     const variant: UserVariant = {
       description: `Gemini ${model}`,
+      provider: "gemini",
       env: {
-        GEMINI_MODEL: model === "pro" ? "gemini-2.5-pro" : "gemini-2.5-flash",
+        GEMINI_MODEL: modelId(`gemini-${model}`, "gemini"),
       },
     };
     await saveVariant(`gemini.${model}`, variant);
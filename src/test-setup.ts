@@ -0,0 +1,12 @@
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// `bun test` preload: point HOME and the config directory at a scratch dir
+// before any module reads them, so tests never touch the real config
+const home = mkdtempSync(join(tmpdir(), "coderouter-test-"));
+process.env.HOME = home;
+process.env.XDG_CONFIG_HOME = join(home, ".config");
+mkdirSync(join(home, ".config", "coderouter"), { recursive: true, mode: 0o700 });
+delete process.env.CODEROUTER_CONFIG;
+delete process.env.CODEROUTER_PRESETS;
@@ -1,34 +1,137 @@
 // Scaffolds are the CLI tools we wrap
 export type Scaffold = "claude" | "opencode" | "codex" | "gemini";
 
+// Local Anthropic -> OpenAI translation proxy (claude scaffold only)
+export interface ProxyConfig {
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. "http://localhost:11434/v1"
+  apiKeyEnv?: string; // env var holding the upstream API key
+  model?: string; // force this upstream model regardless of what claude asks for
+}
+
+// A per-variant config home under the coderouter config dir
+export interface ConfigHome {
+  subdir?: string; // defaults to "<scaffold>-<variant>"
+  seed?: string; // template directory copied in when the home is created
+}
+
 // A builtin variant definition
 export interface BuiltinVariant {
   name: string;
   description: string;
   env: Record<string, string>;
   defaultArgs?: string[];
-  // For opencode, we manage XDG_CONFIG_HOME
-  xdgConfigSubdir?: string;
+  // Run with a separate config dir (CLAUDE_CONFIG_DIR, CODEX_HOME, ...)
+  configHome?: boolean | ConfigHome;
   // Env vars that must exist for this variant to work
   requiredEnvVars?: string[];
+  // Route claude through a local proxy to an OpenAI-compatible endpoint
+  proxy?: ProxyConfig;
+  // Column of the model catalog this variant's model IDs come from
+  provider?: string;
 }
 
-// A user-defined variant (can extend a builtin)
+// A user-defined variant (can extend a builtin or another user variant)
 export interface UserVariant {
-  extends?: string; // e.g., "claude.aws" to inherit from builtin
+  extends?: string; // e.g., "claude.aws" or "claude.aws.base"
   description?: string;
   env?: Record<string, string>; // merged on top of extended variant
+  unset?: string[]; // env keys to drop from the extended variant
   defaultArgs?: string[];
+  // How defaultArgs combine with the extended variant's (default: replace)
+  argsMerge?: "append" | "prepend" | "replace";
   requiredEnvVars?: string[];
+  proxy?: ProxyConfig;
+  configHome?: boolean | ConfigHome;
+  provider?: string; // e.g., "bedrock"; see `cr models`
+}
+
+// An ordered fallback chain of targets, run with `cr <route>`
+export interface RouteConfig {
+  variants: string[]; // e.g., ["claude.glm", "claude.kimi", "claude.aws"]
+  // Exit codes that count as a provider failure (launch failures always do)
+  failoverExitCodes?: number[];
+  // Extra stderr regexes that mark a failed run as a provider failure
+  failoverPatterns?: string[];
+}
+
+// Picks the target for `cr run` / `cr .` when every condition given holds
+export interface RoutingRule {
+  name?: string;
+  target: string; // a variant or route
+  cwd?: string | string[]; // directory globs; any one matches, subdirectories included
+  remote?: string | string[]; // git remote URL globs; any remote matching any one
+  files?: string | string[]; // paths that must all exist in the repo
+  time?: string; // local time range, "09:00-18:00"; may wrap midnight
+  interactive?: boolean; // false for -p/--print or when not on a terminal
 }
 
 // User config stored in ~/.config/coderouter/config.json
 export interface Config {
+  // Format version, upgraded by the steps in migrations.ts
+  schemaVersion?: number;
+
   // User-defined variants keyed by full name (e.g., "claude.aws.sonnet")
   variants?: Record<string, UserVariant>;
 
   // Auth credentials with glob patterns (e.g., "claude.glm*")
   auth?: Record<string, Record<string, string>>;
+
+  // Named fallback chains; a plain array is shorthand for { variants: [...] }
+  routes?: Record<string, string[] | RouteConfig>;
+
+  // Per-model prices for `cr usage`, merged over the builtin table
+  pricing?: Record<string, ModelPrice>;
+
+  // Model aliases, merged over the builtin catalog per provider
+  models?: Record<string, ModelAlias>;
+
+  // Rules for `cr run` / `cr .`, tried in order; the first match wins
+  rules?: RoutingRule[];
+
+  // Directories whose .coderouter.json may change variants that use saved
+  // auth. Only read from the user config.
+  trustedProjects?: string[];
+}
+
+// A logical model and its ID on each provider, e.g. opus -> bedrock: "global.anthropic..."
+export interface ModelAlias {
+  description?: string;
+  // Scaffolds that can run the model; any when unset
+  scaffolds?: Scaffold[];
+  ids: Record<string, string>;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite?: number; // defaults to input
+  cacheRead?: number; // defaults to input
+}
+
+// Where a resolved env value or arg came from (`cr explain`)
+export type ValueSource =
+  | { kind: "builtin"; variant: string }
+  // depth 0 is the target variant itself, 1 the variant it extends, ...
+  | { kind: "user"; variant: string; file?: string; depth: number }
+  | { kind: "auth"; pattern: string }
+  | { kind: "process-env" }
+  | { kind: "coderouter"; reason: string }
+  | { kind: "command-line" };
+
+// A value with its origin; null means the key was unset at that point
+export interface TracedValue {
+  value: string | null;
+  source: ValueSource;
+  // The value as written, when it contained ${...} references
+  template?: string;
+}
+
+// Provenance recorded while resolving a target
+export interface VariantTrace {
+  // Every value each env key took, in order; the last one wins
+  env: Record<string, TracedValue[]>;
+  args: TracedValue[];
 }
 
 // Resolved target to run
@@ -39,4 +142,32 @@ export interface ResolvedTarget {
   env: Record<string, string>;
   defaultArgs: string[];
   requiredEnvVars: string[];
+  // Model catalog column, from the variant or the scaffold's default
+  provider?: string;
+  // Removed from the child's env even when set in the shell or saved auth
+  unsetEnv?: string[];
+}
+
+// One launch in the run history journal (history.jsonl)
+export interface HistoryEntry {
+  target: string;
+  scaffold: Scaffold;
+  variant: string | null;
+  // Route name, when the run was a hop of a fallback route
+  route?: string;
+  cwd: string;
+  // Top-level directory of the git repo the run started in
+  repo: string | null;
+  branch: string | null;
+  // Redacted; full prompts are kept, secrets are not
+  args: string[];
+  start: string;
+  end: string;
+  durationMs: number;
+  // null when the child was killed by a signal or never launched
+  exitCode: number | null;
+  signal: string | null;
+  launched: boolean;
+  // Config home the scaffold ran with, if coderouter or the user set one
+  configHome: string | null;
 }
@@ -0,0 +1,296 @@
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { loadConfig, matchesGlob } from "./config.ts";
+import { readHistory, parseHistoryArgs, type HistoryFilter } from "./history.ts";
+import { findPrice, costOf, type TokenCounts } from "./pricing.ts";
+import type { HistoryEntry, ModelPrice } from "./types.ts";
+
+// Runs are matched to transcript messages written up to this long after they ended
+const MATCH_SLACK_MS = 60_000;
+
+const NOT_VIA_CR = "(not via cr)";
+
+interface UsageRecord {
+  model: string;
+  timestamp: string;
+  cwd: string;
+  tokens: TokenCounts;
+  // Config dir the transcript was found in
+  home: string;
+}
+
+interface AttributedUsage extends UsageRecord {
+  target: string;
+  repo: string | null;
+}
+
+export interface UsageRow extends TokenCounts {
+  key: string;
+  messages: number;
+  // null when no message in the row has a known price
+  cost: number | null;
+}
+
+export interface UsageReport {
+  byVariant: UsageRow[];
+  byRepo: UsageRow[];
+  byDay: UsageRow[];
+  // Models with no price; their tokens are counted but not costed
+  unpricedModels: string[];
+}
+
+// The parts of a Claude Code transcript line that carry usage
+interface TranscriptLine {
+  type?: string;
+  timestamp?: string;
+  cwd?: string;
+  requestId?: string;
+  message?: {
+    id?: string;
+    model?: string;
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
+  };
+}
+
+function defaultClaudeHome(): string {
+  return process.env.CLAUDE_CONFIG_DIR || join(homedir(), ".claude");
+}
+
+async function listTranscripts(home: string, since?: Date): Promise<string[]> {
+  const dir = join(home, "projects");
+  let files: string[];
+  try {
+    files = await readdir(dir, { recursive: true });
+  } catch {
+    return [];
+  }
+
+  const transcripts: string[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".jsonl")) continue;
+    const path = join(dir, file);
+    // Files untouched since the start of the range can't hold messages in it
+    if (since) {
+      // Claude Code may delete or rotate a transcript while we list them
+      const info = await stat(path).catch(() => null);
+      if (!info || info.mtime < since) continue;
+    }
+    transcripts.push(path);
+  }
+  return transcripts;
+}
+
+// Assistant messages with usage from a Claude Code transcript. Streamed
+// responses log the same message several times, so the caller dedupes by id.
+async function readTranscript(path: string, home: string, seen: Set<string>): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch {
+    // Removed since it was listed
+    return records;
+  }
+
+  for (const line of content.split("\n")) {
+    if (!line.includes('"usage"')) continue;
+    let entry: TranscriptLine;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const message = entry.message;
+    if (
+      entry.type !== "assistant" || !entry.timestamp ||
+      !message?.usage || !message.model || message.model === "<synthetic>"
+    ) {
+      continue;
+    }
+
+    const id = `${message.id}:${entry.requestId ?? ""}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const usage = message.usage;
+    records.push({
+      model: message.model,
+      timestamp: entry.timestamp,
+      cwd: entry.cwd ?? "",
+      home,
+      tokens: {
+        input: usage.input_tokens ?? 0,
+        output: usage.output_tokens ?? 0,
+        cacheWrite: usage.cache_creation_input_tokens ?? 0,
+        cacheRead: usage.cache_read_input_tokens ?? 0,
+      },
+    });
+  }
+
+  return records;
+}
+
+// Claude Code transcripts from the default home and every isolated home in history
+export async function readClaudeUsage(history: HistoryEntry[], since?: Date): Promise<UsageRecord[]> {
+  const homes = new Set([defaultClaudeHome()]);
+  for (const run of history) {
+    if (run.scaffold === "claude" && run.configHome) homes.add(run.configHome);
+  }
+
+  const seen = new Set<string>();
+  const records: UsageRecord[] = [];
+  for (const home of homes) {
+    for (const path of await listTranscripts(home, since)) {
+      records.push(...(await readTranscript(path, home, seen)));
+    }
+  }
+  return records;
+}
+
+// Attribute each message to the run that was live in the same directory and
+// config home when it was written
+export function attributeUsage(records: UsageRecord[], history: HistoryEntry[]): AttributedUsage[] {
+  const runs = history.filter((run) => run.scaffold === "claude" && run.launched);
+
+  return records.map((record) => {
+    const time = new Date(record.timestamp).getTime();
+    const run = runs.findLast((r) =>
+      r.cwd === record.cwd &&
+      (r.configHome ?? defaultClaudeHome()) === record.home &&
+      new Date(r.start).getTime() <= time &&
+      time <= new Date(r.end).getTime() + MATCH_SLACK_MS
+    );
+    return run
+      ? { ...record, target: run.target, repo: run.repo }
+      : { ...record, target: NOT_VIA_CR, repo: null };
+  });
+}
+
+function localDay(timestamp: string): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function groupUsage(
+  usage: AttributedUsage[],
+  keyOf: (u: AttributedUsage) => string,
+  pricing: Record<string, ModelPrice>,
+  unpriced: Set<string>
+): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+
+  for (const u of usage) {
+    const key = keyOf(u);
+    const row = rows.get(key) ?? { key, messages: 0, input: 0, output: 0, cacheWrite: 0, cacheRead: 0, cost: null };
+    row.messages++;
+    row.input += u.tokens.input;
+    row.output += u.tokens.output;
+    row.cacheWrite += u.tokens.cacheWrite;
+    row.cacheRead += u.tokens.cacheRead;
+
+    const price = findPrice(u.model, pricing);
+    if (price) {
+      row.cost = (row.cost ?? 0) + costOf(u.tokens, price);
+    } else {
+      unpriced.add(u.model);
+    }
+    rows.set(key, row);
+  }
+
+  return [...rows.values()];
+}
+
+export async function buildUsageReport(filter: HistoryFilter): Promise<UsageReport> {
+  const config = await loadConfig();
+  const history = await readHistory();
+  const records = await readClaudeUsage(history, filter.since);
+
+  const usage = attributeUsage(records, history).filter((u) => {
+    const time = new Date(u.timestamp);
+    if (filter.since && time < filter.since) return false;
+    if (filter.until && time > filter.until) return false;
+    if (filter.variant && !matchesGlob(u.target, filter.variant)) return false;
+    if (filter.repo && !(u.repo ?? "").includes(filter.repo)) return false;
+    return true;
+  });
+
+  const pricing = config.pricing || {};
+  const unpriced = new Set<string>();
+  const byCost = (a: UsageRow, b: UsageRow) => (b.cost ?? 0) - (a.cost ?? 0);
+
+  return {
+    byVariant: groupUsage(usage, (u) => u.target, pricing, unpriced).sort(byCost),
+    byRepo: groupUsage(usage, (u) => u.repo ?? "(no repo)", pricing, unpriced).sort(byCost),
+    byDay: groupUsage(usage, (u) => localDay(u.timestamp), pricing, unpriced).sort((a, b) => a.key.localeCompare(b.key)),
+    unpricedModels: [...unpriced].sort(),
+  };
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatCost(cost: number | null): string {
+  return cost === null ? "?" : `$${cost.toFixed(2)}`;
+}
+
+function printRows(title: string, rows: UsageRow[]): void {
+  const width = Math.max(title.length, ...rows.map((r) => r.key.length));
+  const columns = ["input", "output", "cache w", "cache r", "cost"];
+  console.log(`\x1b[1m${title.padEnd(width)}  ${columns.map((c) => c.padStart(8)).join("  ")}\x1b[0m`);
+
+  for (const r of rows) {
+    const cells = [r.input, r.output, r.cacheWrite, r.cacheRead].map((n) => formatTokens(n).padStart(8));
+    console.log(`${r.key.padEnd(width)}  ${cells.join("  ")}  ${formatCost(r.cost).padStart(8)}`);
+  }
+
+  const total = rows.reduce((sum, r) => sum + (r.cost ?? 0), 0);
+  console.log(`\x1b[90m${"total".padEnd(width)}  ${" ".repeat(38)}  ${formatCost(total).padStart(8)}\x1b[0m`);
+}
+
+const GROUPINGS = { variant: "byVariant", repo: "byRepo", day: "byDay" } as const;
+
+// `cr usage [--by variant|repo|day] [--variant glob] [--repo text] [--since date] [--until date] [--json]`
+export async function runUsage(args: string[]): Promise<void> {
+  let by: keyof typeof GROUPINGS = "variant";
+  const byIndex = args.indexOf("--by");
+  if (byIndex !== -1) {
+    const value = args[byIndex + 1] ?? "";
+    if (!(value in GROUPINGS)) {
+      throw new Error(`--by must be one of: ${Object.keys(GROUPINGS).join(", ")}`);
+    }
+    by = value as keyof typeof GROUPINGS;
+    args = [...args.slice(0, byIndex), ...args.slice(byIndex + 2)];
+  }
+
+  const { filter, json } = parseHistoryArgs(args);
+  const report = await buildUsageReport(filter);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const rows = report[GROUPINGS[by]];
+  if (rows.length === 0) {
+    console.log("no Claude Code usage found in transcripts");
+    return;
+  }
+
+  printRows(by, rows);
+
+  if (report.unpricedModels.length > 0) {
+    console.log();
+    console.log(`\x1b[33mno price for:\x1b[0m ${report.unpricedModels.join(", ")}`);
+    console.log(`add them under "pricing" in your config (USD per million tokens)`);
+  }
+}